@@ -1,12 +1,51 @@
 import { useEffect, useMemo, useState } from 'react';
 import { toHiragana, toKatakana, toRomaji } from 'wanakana';
 import type { ChangeEvent, KeyboardEvent } from 'react';
-import type { AppState, Card, CardId, Deck, DeckId, ExampleSentence, VocabCategory, VocabPracticeFilter } from './lib/models';
-import { isCorrect, isCorrectEnglish, normalizeEnglish, normalizeJapanese, normalizeKatakana } from './lib/grading';
+import type {
+  AppState,
+  Card,
+  CardId,
+  CardSrs,
+  CardStats,
+  Deck,
+  DeckId,
+  ExampleSentence,
+  LeechAction,
+  SchedulerKind,
+  VocabCategory,
+  VocabPracticeFilter,
+} from './lib/models';
 import {
-  countDueForDeck,
+  NEAR_MISS_HINTS,
+  alignFurigana,
+  answerPatternError,
+  classifyNearMiss,
+  englishAcceptableAnswers,
+  expandAnswerPattern,
+  gradeEnglish,
+  hasKanji,
+  matchJapanese,
+  normalizeEnglish,
+  normalizeJapanese,
+  normalizeKatakana,
+  normalizeSurface,
+  scoreSentence,
+  sentenceScoreGrade,
+} from './lib/grading';
+import type { AcceptedJapanese, NearMissKind, SentenceScore } from './lib/grading';
+import { diffAnswer, diffCost } from './lib/diff';
+import type { DiffOp } from './lib/diff';
+import { deconjugateVerb, knownVerbsFromState, matchKnownVerbs } from './lib/deconjugate';
+import type { DeconjugationMatch } from './lib/deconjugate';
+import { diagnoseVerbMistake } from './lib/verbDiagnosis';
+import {
+  DEFAULT_MAX_REVIEWS_PER_DAY,
+  DEFAULT_NEW_CARDS_PER_DAY,
+  countDueBreakdownForDeck,
   defaultVocabPracticeCategories,
   getDueCardIdsForDeck,
+  getDueHistogramForDeck,
+  getSiblingCardIds,
   getPracticeCardIdsForDeck,
   getPracticeCardIdsForDeckByTags,
   getVerbEndingsPresentForDeck,
@@ -15,21 +54,89 @@ import {
   getVerbMixedQueueForVerbClass,
   getVerbMixedQueueForVerbEnding,
   getVerbMixedQueueForPractice,
+  getVerbCardIdsForBases,
   getVerbLadderQueueForBases,
+  isCardActive,
+  isCardBuried,
+  isCardSuspended,
+  isConjugationDeck,
   isVocabOnlyDeck,
+  newPerDayForDeck,
+  recordDailyReview,
+  srsQueueKind,
+  startOfNextDay,
   vocabCategoryForPos,
 } from './lib/queue';
-import { applySm2, defaultSrs } from './lib/srs';
-import { loadState, resetState, saveState } from './lib/storage';
-import { conjugateVerb as seedConjugateVerb, verbConjugationHintText, verbFormLabel as seedVerbFormLabel } from './lib/seed';
+import {
+  DEFAULT_LEARNING_STEPS,
+  DEFAULT_RELEARNING_STEPS,
+  LEARN_AHEAD_MS,
+  applyReview,
+  defaultSrs,
+  fsrsMemoryFromHistory,
+  historyFromReviewLog,
+  previewReviewIntervals,
+  DEFAULT_LEECH_THRESHOLD,
+  LEECH_TAG,
+  leechActionForReview,
+  reviewOptionsForDeck,
+} from './lib/srs';
+import type { CardReviewHistory, ReviewGrade, ReviewOptions } from './lib/srs';
+import { appendReviewLog, deleteReviewLogEntry, loadReviewLog, loadState, resetState, saveState } from './lib/storage';
+import {
+  ADJECTIVE_FORMS,
+  adjectiveFormLabel,
+  adjectiveQuickRuleText,
+  classifyAdjective,
+  classifyVerb,
+  conjugateVerb as seedConjugateVerb,
+  isAdjectiveForm,
+  isKuruVerb,
+  isVerbForm,
+  makeAdjectiveFormCard,
+  verbConjugationHintText,
+  verbFormLabel as seedVerbFormLabel,
+  verbFormsForBase,
+  verbQuickRuleText,
+} from './lib/seed';
+import type { VerbClass } from './lib/seed';
+
+type ReviewAttempt = {
+  correct: boolean;
+  expected: string;
+  got: string;
+  responseMs: number;
+  matched?: AcceptedJapanese;
+  nearMiss?: NearMissKind;
+  sentence?: SentenceScore;
+};
+
+type ReviewUndoSnapshot = {
+  idx: number;
+  queue: CardId[];
+  card: Card;
+  srsById: Record<CardId, CardSrs | undefined>;
+  stats: CardStats | undefined;
+  dailyCounts: AppState['dailyCounts'];
+  logId: Promise<number | undefined>;
+};
 
 type Screen =
   | { name: 'home' }
-  | { name: 'review'; deckId: DeckId; queue: CardId[]; idx: number; verbMode?: 'ladder' | 'mixed' }
+  | {
+      name: 'review';
+      deckId: DeckId;
+      queue: CardId[];
+      idx: number;
+      mode?: 'review' | 'practice';
+      verbMode?: 'ladder' | 'mixed';
+    }
   | { name: 'verb_rules'; deckId: DeckId }
   | { name: 'verb_browser'; deckId: DeckId }
+  | { name: 'verb_lookup'; deckId: DeckId }
   | { name: 'vocab_practice_settings'; deckId: DeckId }
   | { name: 'manage' }
+  | { name: 'leeches' }
   | { name: 'vocab' };
 
 const safeRandomUUID = (): string => {
@@ -62,41 +169,74 @@ const safeRandomUUID = (): string => {
 
 const makeId = (prefix: string): string => `${prefix}_${safeRandomUUID()}`;
 
-type VerbClass = 'ichidan' | 'godan';
-
 const lastKana = (s: string): string => (s ? s.slice(-1) : '');
 const dropLastKana = (s: string): string => (s ? s.slice(0, -1) : '');
 
-const classifyVerb = (baseKana: string, baseKanji?: string): VerbClass => {
-  const kana = baseKana.trim();
-  if (kana === 'ある') return 'godan';
-  if (kana === 'いく') return 'godan';
+const nowMs = () => Date.now();
+
+const patchCardSrs = (state: AppState, cardIds: CardId[], patch: Partial<CardSrs>, now: number): AppState => {
+  const srs = { ...state.srs };
+  for (const id of cardIds) srs[id] = { ...(srs[id] ?? defaultSrs(id, now)), ...patch };
+  return { ...state, srs };
+};
 
-  const k = (baseKanji ?? '').trim();
-  if (k === '要る') return 'godan';
+// Semicolon- or line-separated. Kana alternatives are normalized like answers; kanji spellings are kept as typed.
+const normalizeAlternative = (text: string, japanese: boolean): string => {
+  const t = text.trim();
+  return japanese && !hasKanji(t) ? normalizeJapanese(t) : t;
+};
 
-  const ichidanKanji = new Set(['変える', '着る']);
-  if (ichidanKanji.has(k)) return 'ichidan';
+const parseAlternatives = (text: string, japanese: boolean): string[] | undefined => {
+  const out = text
+    .split(/[;；\n]/)
+    .map((t) => normalizeAlternative(t, japanese))
+    .filter(Boolean);
+  return out.length ? [...new Set(out)] : undefined;
+};
 
-  const godanRuKanji = new Set(['入る', '帰る', '知る', '切る', '走る', '乗る', '減る', '滑る', '参る', '限る', '握る']);
-  if (godanRuKanji.has(k)) return 'godan';
+// A verb card's form conjugated from its kanji base (来る → 来なかった), or '' when it has no kanji base.
+const kanjiConjugationForCard = (card: Card): string => {
+  const baseKanji = (card.verbBaseKanji ?? '').trim();
+  const baseKana = (card.verbBaseKana ?? '').trim();
+  const form = (card.verbForm ?? '').trim().toLowerCase();
+  if (card.type !== 'verb' || !baseKanji || !baseKana || !isVerbForm(form)) return '';
+  const conjugated = seedConjugateVerb(baseKanji, baseKana, form, classifyVerb(baseKana, baseKanji));
+  return hasKanji(conjugated) ? conjugated : '';
+};
 
-  const ruExceptions = new Set(['はいる', 'かえる', 'しる', 'のる', 'はしる', 'きる', 'へる', 'すべる', 'しゃべる', 'まいる', 'かぎる', 'にぎる']);
-  if (ruExceptions.has(kana)) return 'godan';
+// The kanji surface form a card should be answered with, or '' when it has none.
+const kanjiAnswerForCard = (card: Card): string => {
+  const conjugated = kanjiConjugationForCard(card);
+  if (conjugated) return conjugated;
+  const kanji = (card.kanji ?? '').trim();
+  return hasKanji(kanji) ? kanji : '';
+};
 
-  if (kana.endsWith('る')) {
-    const r = toRomaji(kana);
-    if (r.endsWith('ru')) {
-      const pre = r.slice(0, -2);
-      const v = pre.slice(-1);
-      if (v === 'i' || v === 'e') return 'ichidan';
-    }
+const acceptedJapaneseForCard = (card: Card): AcceptedJapanese[] => {
+  const out: AcceptedJapanese[] = [{ label: 'kana', text: card.answer }];
+  for (const alt of card.alternatives ?? []) out.push({ label: 'alternative', text: alt });
+  const pattern = card.answerPattern ? expandAnswerPattern(card.answerPattern) : null;
+  if (pattern?.ok) {
+    for (const variant of pattern.variants) if (variant !== card.answer) out.push({ label: 'pattern', text: variant });
   }
+  const kanji = (card.kanji ?? '').trim();
+  if (kanji && hasKanji(kanji)) out.push({ label: 'kanji', text: kanji, reading: card.answer });
 
-  return 'godan';
+  const conjugated = kanjiConjugationForCard(card);
+  if (conjugated && conjugated !== kanji) out.push({ label: 'kanji conjugation', text: conjugated, reading: card.answer });
+  return out;
 };
 
-const nowMs = () => Date.now();
+const formatInterval = (ms: number): string => {
+  const minutes = Math.max(1, Math.round(ms / (60 * 1000)));
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours}h`;
+  const days = Math.round(hours / 24);
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${(days / 30).toFixed(1)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+};
 
 const normalizeExample = (ex: unknown): ExampleSentence | undefined => {
   if (typeof ex === 'string') {
@@ -303,6 +443,7 @@ export default function App() {
 
         const vocabs = subjects.filter((s) => s.object === 'vocabulary');
         const verbsOnly = vocabs.filter((s) => (s.data.parts_of_speech ?? []).some((p) => /\bverb\b/.test(p.toLowerCase())));
+        const adjectivesOnly = vocabs.filter((s) => !!classifyAdjective((s.data.parts_of_speech ?? []).join(', ')));
 
         const syncedAt = nowMs();
         setState((prev) => {
@@ -310,7 +451,8 @@ export default function App() {
 
           const verbConjDeckEntry = Object.entries(prev.decks).find(([, d]) => (d.name ?? '').toLowerCase().includes('verb conjugation'));
           const verbConjDeckId = verbConjDeckEntry?.[0];
-          if (!verbConjDeckId) return { ...prev, wkLastVerbSyncAt: syncedAt };
+          const adjConjDeckId = Object.entries(prev.decks).find(([, d]) => (d.name ?? '').toLowerCase().includes('adjective conjugation'))?.[0];
+          if (!verbConjDeckId && !adjConjDeckId) return { ...prev, wkLastVerbSyncAt: syncedAt };
 
           const existingKeys = new Set<string>();
           const existingVerbKeys = new Set<string>();
@@ -330,97 +472,111 @@ export default function App() {
 
           const nextCards: Record<string, Card> = { ...prev.cards };
           const nextDecks: AppState['decks'] = { ...prev.decks };
-          const deck = nextDecks[verbConjDeckId];
-          const baseCardIds = Array.isArray(deck?.cardIds) ? deck.cardIds : [];
-          const cardIds = [...baseCardIds];
-
-          const forms: Array<
-            | 'dictionary'
-            | 'polite_present'
-            | 'polite_negative'
-            | 'te'
-            | 'progressive'
-            | 'past'
-            | 'negative'
-            | 'past_negative'
-            | 'want'
-            | 'dont_want'
-            | 'want_past'
-            | 'dont_want_past'
-          > = [
-            'dictionary',
-            'polite_present',
-            'polite_negative',
-            'te',
-            'progressive',
-            'past',
-            'negative',
-            'past_negative',
-            'want',
-            'dont_want',
-            'want_past',
-            'dont_want_past',
-          ];
 
           let addedConj = 0;
-          for (const s of verbsOnly) {
-            const kana = wkPrimaryReading(s).trim();
-            if (!kana) continue;
-            const kanji = (s.data.characters ?? '').trim() || undefined;
-            const english = wkVerbCueMeaning(s).trim();
-            if (!english) continue;
-
-            const pos = (s.data.parts_of_speech ?? []).join(', ') || 'verb';
-            const meanings = wkMeaningSummary(s);
-            const ex = makeExampleSentences(s);
-
-            const cls = classifyVerb(kana, kanji);
-            for (const form of forms) {
-              const answerKana = seedConjugateVerb(kana, kana, form as any, cls as any);
-              const answerKanji = kanji ? seedConjugateVerb(kanji, kana, form as any, cls as any) : undefined;
-              const fromDisp = kanji || kana;
-              const toDisp = answerKanji || answerKana;
-              const conjBg = `Conjugation: ${fromDisp} → ${toDisp} (${seedVerbFormLabel(form as any)}). Source: WaniKani L${s.data.level}. Meanings: ${meanings}`;
-
-              const verbCard: Card = {
-                id: makeId('card'),
-                deckId: verbConjDeckId,
-                type: 'verb',
-                pos,
-                prompt: english,
-                answer: normalizeJapanese(answerKana),
-                note: verbConjugationHintText(form as any, kana, cls as any, answerKana),
-                kanji: answerKanji,
-                background: conjBg,
-                exampleSentences: ex,
-                verbBaseKana: kana,
-                verbBaseKanji: kanji,
-                verbForm: form,
-              };
+          if (verbConjDeckId) {
+            const deck = nextDecks[verbConjDeckId];
+            const baseCardIds = Array.isArray(deck?.cardIds) ? deck.cardIds : [];
+            const cardIds = [...baseCardIds];
+            for (const s of verbsOnly) {
+              const kana = wkPrimaryReading(s).trim();
+              if (!kana) continue;
+              const kanji = (s.data.characters ?? '').trim() || undefined;
+              const english = wkVerbCueMeaning(s).trim();
+              if (!english) continue;
+
+              const pos = (s.data.parts_of_speech ?? []).join(', ') || 'verb';
+              const meanings = wkMeaningSummary(s);
+              const ex = makeExampleSentences(s);
+
+              const cls = classifyVerb(kana, kanji);
+              for (const form of verbFormsForBase(kana)) {
+                const answerKana = seedConjugateVerb(kana, kana, form, cls);
+                const answerKanji = kanji ? seedConjugateVerb(kanji, kana, form, cls) : undefined;
+                const fromDisp = kanji || kana;
+                const toDisp = answerKanji || answerKana;
+                const conjBg = `Conjugation: ${fromDisp} → ${toDisp} (${seedVerbFormLabel(form)}). Source: WaniKani L${s.data.level}. Meanings: ${meanings}`;
+
+                const verbCard: Card = {
+                  id: makeId('card'),
+                  deckId: verbConjDeckId,
+                  type: 'verb',
+                  pos,
+                  prompt: english,
+                  answer: normalizeJapanese(answerKana),
+                  note: verbConjugationHintText(form, kana, cls, answerKana),
+                  kanji: answerKanji,
+                  background: conjBg,
+                  exampleSentences: ex,
+                  verbBaseKana: kana,
+                  verbBaseKanji: kanji,
+                  verbForm: form,
+                };
+
+                const key = `${verbCard.deckId}||${verbCard.type}||${normalizeEnglish(verbCard.prompt)}||${normalizeJapanese(verbCard.answer)}||${(verbCard.kanji ?? '').trim()}`;
+                const bk = (verbCard.verbBaseKanji ?? '').trim();
+                const ba = normalizeJapanese(verbCard.verbBaseKana ?? '');
+                const f = (verbCard.verbForm ?? '').trim().toLowerCase();
+                const p = normalizeEnglish(verbCard.prompt ?? '');
+                const key2 = bk ? `verb||${ba}||${bk}||${f}` : `verb||${ba}||${f}||${p}`;
+                if (existingKeys.has(key) || existingVerbKeys.has(key2)) continue;
+                existingKeys.add(key);
+                existingVerbKeys.add(key2);
+                nextCards[verbCard.id] = verbCard;
+                cardIds.push(verbCard.id);
+                addedConj += 1;
+              }
+            }
 
-              const key = `${verbCard.deckId}||${verbCard.type}||${normalizeEnglish(verbCard.prompt)}||${normalizeJapanese(verbCard.answer)}||${(verbCard.kanji ?? '').trim()}`;
-              const bk = (verbCard.verbBaseKanji ?? '').trim();
-              const ba = normalizeJapanese(verbCard.verbBaseKana ?? '');
-              const f = (verbCard.verbForm ?? '').trim().toLowerCase();
-              const p = normalizeEnglish(verbCard.prompt ?? '');
-              const key2 = bk ? `verb||${ba}||${bk}||${f}` : `verb||${ba}||${f}||${p}`;
-              if (existingKeys.has(key) || existingVerbKeys.has(key2)) continue;
-              existingKeys.add(key);
-              existingVerbKeys.add(key2);
-              nextCards[verbCard.id] = verbCard;
-              cardIds.push(verbCard.id);
-              addedConj += 1;
+            if (addedConj) {
+              nextDecks[verbConjDeckId] = {
+                ...deck,
+                cardIds,
+              };
+              console.info(`Auto-synced WaniKani verbs into Verb Conjugation. Added ${addedConj} card(s).`);
             }
           }
 
-          if (addedConj === 0) return { ...prev, wkLastVerbSyncAt: syncedAt };
+          let addedAdjectives = 0;
+          if (adjConjDeckId) {
+            const existingAdjectiveKanji = new Map<string, Set<string>>();
+            for (const c of Object.values(prev.cards)) {
+              if (c.deckId !== adjConjDeckId || c.type !== 'adjective') continue;
+              const key = `${normalizeJapanese(c.adjectiveBaseKana ?? '')}||${(c.adjectiveForm ?? '').trim().toLowerCase()}`;
+              const kanjiSeen = existingAdjectiveKanji.get(key) ?? new Set<string>();
+              kanjiSeen.add((c.adjectiveBaseKanji ?? '').trim());
+              existingAdjectiveKanji.set(key, kanjiSeen);
+            }
 
-          nextDecks[verbConjDeckId] = {
-            ...deck,
-            cardIds,
-          };
+            const cardIds = [...(nextDecks[adjConjDeckId]?.cardIds ?? [])];
+            for (const s of adjectivesOnly) {
+              const kana = normalizeJapanese(wkPrimaryReading(s));
+              const kanji = (s.data.characters ?? '').trim() || undefined;
+              const english = wkPrimaryMeaning(s).trim();
+              const pos = (s.data.parts_of_speech ?? []).join(', ');
+              if (!kana || !english) continue;
+
+              const src = { prompt: english, pos, exampleSentences: makeExampleSentences(s) };
+              const source = `Source: WaniKani L${s.data.level}. Meanings: ${wkMeaningSummary(s)}`;
+              for (const form of ADJECTIVE_FORMS) {
+                // Seed cards without kanji count as the same word as any WaniKani spelling.
+                const kanjiSeen = existingAdjectiveKanji.get(`${kana}||${form}`);
+                if (kanjiSeen && (kanjiSeen.has('') || kanjiSeen.has(kanji ?? ''))) continue;
+                const adjectiveCard = makeAdjectiveFormCard(adjConjDeckId, src, kana, kanji, form, source);
+                nextCards[adjectiveCard.id] = adjectiveCard;
+                cardIds.push(adjectiveCard.id);
+                addedAdjectives += 1;
+              }
+            }
+
+            if (addedAdjectives) {
+              nextDecks[adjConjDeckId] = { ...nextDecks[adjConjDeckId], cardIds };
+              console.info(`Auto-synced WaniKani adjectives into Adjective Conjugation. Added ${addedAdjectives} card(s).`);
+            }
+          }
+
+          if (addedConj === 0 && addedAdjectives === 0) return { ...prev, wkLastVerbSyncAt: syncedAt };
 
-          console.info(`Auto-synced WaniKani verbs into Verb Conjugation. Added ${addedConj} card(s).`);
           return {
             ...prev,
             cards: nextCards,
@@ -514,9 +670,8 @@ export default function App() {
       alert('No cards due right now for this deck.');
       return;
     }
-    const d = state.decks[deckId];
-    const isVerb = (d?.name ?? '').toLowerCase().includes('verb conjugation');
-    setScreen({ name: 'review', deckId, queue, idx: 0, verbMode: isVerb ? 'ladder' : undefined });
+    const verbMode = isConjugationDeck(state, deckId) ? 'ladder' : undefined;
+    setScreen({ name: 'review', deckId, queue, idx: 0, mode: 'review', verbMode });
   };
 
   const startPractice = (
@@ -536,9 +691,7 @@ export default function App() {
       return;
     }
 
-    const deck = state.decks[deckId];
-    const isVerb = (deck?.name ?? '').toLowerCase().includes('verb conjugation');
-    const verbMode = isVerb ? (opts?.verbMode ?? 'ladder') : undefined;
+    const verbMode = isConjugationDeck(state, deckId) ? (opts?.verbMode ?? 'ladder') : undefined;
     setScreen({ name: 'review', deckId, queue, idx: 0, verbMode });
   };
 
@@ -555,10 +708,7 @@ export default function App() {
   const onStartPractice = (deckId: DeckId) => startPractice(deckId);
 
   const onStartVerbMix = (deckId: DeckId) => {
-    const deck = state.decks[deckId];
-    if (!deck) return;
-    const isVerb = deck.name.toLowerCase().includes('verb conjugation');
-    if (!isVerb) return;
+    if (!isConjugationDeck(state, deckId)) return;
 
     const now = nowMs();
     const queue = getVerbMixedQueueForPractice(state, deckId, now, 20);
@@ -609,8 +759,10 @@ export default function App() {
         deckId={screen.deckId}
         queue={screen.queue}
         idx={screen.idx}
+        mode={screen.mode ?? 'practice'}
         verbMode={screen.verbMode}
-        setIdx={(idx) => setScreen({ ...screen, idx })}
+        setIdx={(idx) => setScreen((s) => (s.name === 'review' ? { ...s, idx } : s))}
+        setQueue={(queue) => setScreen((s) => (s.name === 'review' ? { ...s, queue } : s))}
         onExit={() => setScreen({ name: 'home' })}
       />
     );
@@ -629,13 +781,19 @@ export default function App() {
     return (
       <VerbConjugationBrowserScreen
         state={state}
+        setState={setState}
         deckId={screen.deckId}
         onBack={() => setScreen({ name: 'home' })}
         onStartPractice={(queue) => startPractice(screen.deckId, queue, { bypassCooldown: true, recordRepeatReview: false })}
+        onOpenLookup={() => setScreen({ name: 'verb_lookup', deckId: screen.deckId })}
       />
     );
   }
 
+  if (screen.name === 'verb_lookup') {
+    return <VerbLookupScreen state={state} onBack={() => setScreen({ name: 'verb_browser', deckId: screen.deckId })} />;
+  }
+
   if (screen.name === 'manage') {
     return (
       <ManageScreen
@@ -647,8 +805,12 @@ export default function App() {
     );
   }
 
+  if (screen.name === 'leeches') {
+    return <LeechScreen state={state} setState={setState} onBack={() => setScreen({ name: 'home' })} />;
+  }
+
   if (screen.name === 'vocab') {
-    return <VocabBrowserScreen state={state} onBack={() => setScreen({ name: 'home' })} />;
+    return <VocabBrowserScreen state={state} setState={setState} onBack={() => setScreen({ name: 'home' })} />;
   }
 
   const now = nowMs();
@@ -665,14 +827,17 @@ export default function App() {
         </div>
         <div className="row">
           <button onClick={() => setScreen({ name: 'vocab' })}>Vocab</button>
+          <button onClick={() => setScreen({ name: 'leeches' })}>Leeches</button>
           <button onClick={() => setScreen({ name: 'manage' })}>Manage</button>
         </div>
       </div>
 
       <div className="grid">
         {decks.map((d: Deck) => {
-          const due = countDueForDeck(state, d.id, now);
+          const dueBreakdown = countDueBreakdownForDeck(state, d.id, now);
+          const due = dueBreakdown.new + dueBreakdown.learning + dueBreakdown.review;
           const isVerbConjugation = d.name.toLowerCase().includes('verb conjugation');
+          const isConjugation = isConjugationDeck(state, d.id);
           const isPhrasesAndSentences = d.name.toLowerCase().includes('phrases') && d.name.toLowerCase().includes('sentenc');
           const isVocabOnly = isVocabOnlyDeck(state, d.id);
           const verbEndings = isVerbConjugation ? getVerbEndingsPresentForDeck(state, d.id) : [];
@@ -701,8 +866,10 @@ export default function App() {
               {d.description ? <div className="small">{d.description}</div> : null}
               <div style={{ marginTop: 10 }} className="row">
                 <div className="small">
-                  Due now: <b>{due}</b>
+                  New: <b>{dueBreakdown.new}</b> · Learning: <b>{dueBreakdown.learning}</b> · Review:{' '}
+                  <b>{dueBreakdown.review}</b>
                 </div>
+                {d.scheduler === 'fsrs' ? <div className="small">FSRS</div> : null}
                 <div className="small">
                   Attempts: <b>{totals.reviews}</b>
                   {totals.reviews ? <span> ({accuracy}% correct)</span> : null}
@@ -717,11 +884,11 @@ export default function App() {
                 >
                   Practice
                 </button>
-                {isVerbConjugation ? (
+                {isConjugation ? (
                   <button
                     onClick={() => onStartVerbMix(d.id)}
                     disabled={d.cardIds.length === 0}
-                    title={'Randomized conjugation forms across all verbs'}
+                    title={`Randomized conjugation forms across all ${isVerbConjugation ? 'verbs' : 'adjectives'}`}
                   >
                     Mix
                   </button>
@@ -742,7 +909,7 @@ export default function App() {
                       onClick={() =>
                         startVerbQuickQueue(
                           d.id,
-                          getVerbLadderQueueForVerbClass(state, d.id, 'ichidan'),
+                          getVerbLadderQueueForVerbClass(state, d.id, 'ichidan', now),
                           'ladder',
                           'No Ichidan verbs found.',
                         )
@@ -755,7 +922,7 @@ export default function App() {
                       onClick={() =>
                         startVerbQuickQueue(
                           d.id,
-                          getVerbMixedQueueForVerbClass(state, d.id, 'ichidan', 20),
+                          getVerbMixedQueueForVerbClass(state, d.id, 'ichidan', 20, now),
                           'mixed',
                           'No Ichidan verbs found.',
                         )
@@ -768,7 +935,7 @@ export default function App() {
                       onClick={() =>
                         startVerbQuickQueue(
                           d.id,
-                          getVerbLadderQueueForVerbClass(state, d.id, 'godan'),
+                          getVerbLadderQueueForVerbClass(state, d.id, 'godan', now),
                           'ladder',
                           'No Godan verbs found.',
                         )
@@ -781,7 +948,7 @@ export default function App() {
                       onClick={() =>
                         startVerbQuickQueue(
                           d.id,
-                          getVerbMixedQueueForVerbClass(state, d.id, 'godan', 20),
+                          getVerbMixedQueueForVerbClass(state, d.id, 'godan', 20, now),
                           'mixed',
                           'No Godan verbs found.',
                         )
@@ -790,6 +957,32 @@ export default function App() {
                     >
                       Godan · Mixed
                     </button>
+                    <button
+                      onClick={() =>
+                        startVerbQuickQueue(
+                          d.id,
+                          getVerbLadderQueueForVerbClass(state, d.id, 'honorific', now),
+                          'ladder',
+                          'No honorific verbs found.',
+                        )
+                      }
+                      title="Honorific (keigo) verb ladders: くださる, いらっしゃる, おっしゃる, なさる, ござる"
+                    >
+                      Keigo · Ladder
+                    </button>
+                    <button
+                      onClick={() =>
+                        startVerbQuickQueue(
+                          d.id,
+                          getVerbMixedQueueForVerbClass(state, d.id, 'honorific', 20, now),
+                          'mixed',
+                          'No honorific verbs found.',
+                        )
+                      }
+                      title="Honorific (keigo) verbs mixed (random forms)"
+                    >
+                      Keigo · Mixed
+                    </button>
                   </div>
 
                   {orderedVerbEndings.length ? (
@@ -803,7 +996,7 @@ export default function App() {
                             onClick={() =>
                               startVerbQuickQueue(
                                 d.id,
-                                getVerbLadderQueueForVerbEnding(state, d.id, e),
+                                getVerbLadderQueueForVerbEnding(state, d.id, e, now),
                                 'ladder',
                                 `No verbs found ending with ${e}.`,
                               )
@@ -816,7 +1009,7 @@ export default function App() {
                             onClick={() =>
                               startVerbQuickQueue(
                                 d.id,
-                                getVerbMixedQueueForVerbEnding(state, d.id, e, 20),
+                                getVerbMixedQueueForVerbEnding(state, d.id, e, 20, now),
                                 'mixed',
                                 `No verbs found ending with ${e}.`,
                               )
@@ -1027,13 +1220,122 @@ function VocabPracticeSettingsScreen(props: {
   );
 }
 
+function AnswerDiff(props: { ops: DiffOp[]; japanese: boolean }) {
+  const { ops, japanese } = props;
+  const cls = japanese ? 'diffLine jpText' : 'diffLine';
+  return (
+    <div style={{ marginTop: 8 }}>
+      <div className="small">Expected (green = you missed it, yellow = you wrote something else)</div>
+      <div className={cls}>
+        {ops.map((op, i) =>
+          op.kind === 'insert' ? null : (
+            <span key={i} className={op.kind === 'delete' ? 'diffMissing' : op.kind === 'replace' ? 'diffWrong' : undefined}>
+              {op.expected}
+            </span>
+          ),
+        )}
+      </div>
+      <div className="small" style={{ marginTop: 4 }}>
+        You typed (red = extra)
+      </div>
+      <div className={cls}>
+        {ops.map((op, i) =>
+          op.kind === 'delete' ? null : (
+            <span key={i} className={op.kind === 'insert' ? 'diffExtra' : op.kind === 'replace' ? 'diffWrong' : undefined}>
+              {op.got}
+            </span>
+          ),
+        )}
+      </div>
+    </div>
+  );
+}
+
+function Furigana(props: { text: string; reading: string }) {
+  const { text, reading } = props;
+  const segments = alignFurigana(text, reading);
+  if (!segments) {
+    return (
+      <>
+        {text} <span className="small">({reading})</span>
+      </>
+    );
+  }
+  return (
+    <>
+      {segments.map((s, i) =>
+        s.reading ? (
+          <ruby key={i}>
+            {s.text}
+            <rt>{s.reading}</rt>
+          </ruby>
+        ) : (
+          <span key={i}>{s.text}</span>
+        ),
+      )}
+    </>
+  );
+}
+
+function SentenceSegments(props: { score: SentenceScore }) {
+  const { segments, score } = props.score;
+  const right = segments.filter((s) => s.correct).length;
+  return (
+    <div style={{ marginTop: 6 }}>
+      <div className="small">
+        Segments right: <b>{right}</b> / {segments.length} · {Math.round(score * 100)}% by mora (dotted = particle)
+      </div>
+      <div className="diffLine jpText">
+        {segments.map((s, i) => (
+          <span key={i} className={`${s.correct ? 'segRight' : 'segWrong'}${s.particle ? ' segParticle' : ''}`}>
+            {s.text}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function RotationControls(props: { state: AppState; setState: (s: AppState) => void; cardIds: CardId[] }) {
+  const { state, setState, cardIds } = props;
+  if (cardIds.length === 0) return null;
+
+  const now = nowMs();
+  const suspended = cardIds.every((id) => isCardSuspended(state, id));
+  const buried = cardIds.every((id) => isCardBuried(state, id, now));
+
+  return (
+    <>
+      {suspended || buried ? (
+        <div className="small" style={{ fontWeight: 700 }}>
+          {suspended ? 'Suspended' : 'Buried until tomorrow'}
+        </div>
+      ) : null}
+      <button
+        onClick={() => setState(patchCardSrs(state, cardIds, { suspended: suspended ? undefined : true }, now))}
+        title={suspended ? 'Bring back into reviews' : 'Hide until you unsuspend it'}
+      >
+        {suspended ? 'Unsuspend' : 'Suspend'}
+      </button>
+      <button
+        onClick={() => setState(patchCardSrs(state, cardIds, { buriedUntil: buried ? undefined : startOfNextDay(now) }, now))}
+        title={buried ? 'Bring back today' : 'Hide until tomorrow'}
+      >
+        {buried ? 'Unbury' : 'Bury'}
+      </button>
+    </>
+  );
+}
+
 function VerbConjugationBrowserScreen(props: {
   state: AppState;
   deckId: DeckId;
   onBack: () => void;
+  setState: (s: AppState) => void;
   onStartPractice: (queue: CardId[]) => void;
+  onOpenLookup: () => void;
 }) {
-  const { state, deckId, onBack, onStartPractice } = props;
+  const { state, setState, deckId, onBack, onStartPractice, onOpenLookup } = props;
   const [q, setQ] = useState('');
   const [sort, setSort] = useState<'kana' | 'english' | 'ending' | 'class' | 'irregular'>('kana');
   const [onlyIrregular, setOnlyIrregular] = useState(false);
@@ -1087,7 +1389,8 @@ function VerbConjugationBrowserScreen(props: {
 
       const cls = classifyVerb(baseKana, baseKanji);
       const ending = lastKana(baseKana);
-      const irregular = baseKana === 'いく' || baseKana === 'ある' || baseKanji === '要る' || (baseKana.endsWith('る') && cls === 'godan');
+      const irregular =
+        baseKana === 'いく' || baseKana === 'ある' || baseKanji === '要る' || cls === 'honorific' || (baseKana.endsWith('る') && cls === 'godan');
 
       byKey.set(key, {
         key,
@@ -1141,13 +1444,19 @@ function VerbConjugationBrowserScreen(props: {
 
   const selectedCount = useMemo(() => Object.values(selected).filter(Boolean).length, [selected]);
 
+  const cardIdsByKey = useMemo(() => {
+    const out: Record<string, CardId[]> = {};
+    for (const e of entries) out[e.key] = getVerbCardIdsForBases(state, deckId, [e.key]);
+    return out;
+  }, [entries, state.cards, deckId]);
+
   const practiceSelected = () => {
     const ordered = filtered.filter((e) => selected[e.key]).map((e) => e.key);
     if (ordered.length === 0) {
       alert('Select at least one verb.');
       return;
     }
-    const queue = getVerbLadderQueueForBases(state, deckId, ordered);
+    const queue = getVerbLadderQueueForBases(state, deckId, ordered, nowMs());
     if (queue.length === 0) {
       alert('No cards found for the selected verbs.');
       return;
@@ -1175,6 +1484,7 @@ function VerbConjugationBrowserScreen(props: {
         </div>
         <div className="row">
           <button onClick={onBack}>Back</button>
+          <button onClick={onOpenLookup}>Look up a conjugation</button>
           <button className="primary" onClick={practiceSelected} disabled={selectedCount === 0}>
             Practice selected ({selectedCount})
           </button>
@@ -1252,6 +1562,9 @@ function VerbConjugationBrowserScreen(props: {
                   {e.baseKanji}
                 </div>
               ) : null}
+              <div className="row" style={{ marginTop: 8, gap: 8 }}>
+                <RotationControls state={state} setState={setState} cardIds={cardIdsByKey[e.key] ?? []} />
+              </div>
             </div>
           );
         })}
@@ -1260,6 +1573,105 @@ function VerbConjugationBrowserScreen(props: {
   );
 }
 
+function VerbLookupScreen(props: { state: AppState; onBack: () => void }) {
+  const { state, onBack } = props;
+  const [word, setWord] = useState('');
+
+  const known = useMemo(() => knownVerbsFromState(state), [state]);
+  const lookup = /^[a-z\s-]+$/i.test(word.trim()) ? toHiragana(word.trim()) : word.trim();
+  const matches = useMemo(() => (lookup ? matchKnownVerbs(deconjugateVerb(lookup), known) : []), [lookup, known]);
+  const knownMatches = matches.filter((m) => m.known);
+  const otherMatches = knownMatches.length ? [] : matches.slice(0, 6);
+
+  const classLabel = (m: DeconjugationMatch): string =>
+    m.cls === 'irregular'
+      ? 'Irregular'
+      : m.cls === 'honorific'
+        ? 'Honorific (keigo る-verb)'
+        : m.cls === 'ichidan'
+          ? 'Ichidan (る-verb)'
+          : 'Godan (う-verb)';
+  const chainLabel = (m: DeconjugationMatch): string =>
+    m.forms.length ? m.forms.map((f) => seedVerbFormLabel(f)).join(' → ') : 'Dictionary form';
+
+  return (
+    <div className="container">
+      <div className="header">
+        <div className="brand">
+          <div className="logo" />
+          <div>
+            <div style={{ fontWeight: 900, fontSize: 18 }}>Conjugation Lookup</div>
+            <div className="small">Paste a conjugated verb to find its dictionary form and the forms applied to it.</div>
+          </div>
+        </div>
+        <div className="row">
+          <button onClick={onBack}>Back</button>
+        </div>
+      </div>
+
+      <div className="card">
+        <label>Conjugated word</label>
+        <input
+          value={word}
+          onChange={(e: ChangeEvent<HTMLInputElement>) => setWord(e.target.value)}
+          placeholder="e.g. 食べさせられなかった or ikimashita"
+          className="jpText"
+          autoFocus
+        />
+        {lookup && lookup !== word.trim() ? (
+          <div className="small" style={{ marginTop: 6 }}>
+            Looking up <b className="jpText">{lookup}</b>
+          </div>
+        ) : null}
+        <div className="small" style={{ marginTop: 6 }}>
+          Checked against <b>{known.length}</b> verbs from your decks and WaniKani imports.
+        </div>
+      </div>
+
+      {lookup && !knownMatches.length ? (
+        <div className="card" style={{ marginTop: 12 }}>
+          <div style={{ fontWeight: 800 }}>No verb in your decks matches.</div>
+          {otherMatches.length ? (
+            <div className="small" style={{ marginTop: 6 }}>
+              Possible readings by rule alone:
+            </div>
+          ) : null}
+          {otherMatches.map((m, i) => (
+            <div key={`${m.base}_${i}`} className="small" style={{ marginTop: 6 }}>
+              <b className="jpText">{m.base}</b> · {classLabel(m)} · {chainLabel(m)}
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      <div style={{ marginTop: 12 }} className="grid">
+        {knownMatches.map((m, i) => (
+          <div key={`${m.base}_${m.forms.join('>')}_${i}`} className="card" style={{ padding: 12 }}>
+            <div className="row" style={{ justifyContent: 'space-between' }}>
+              <div style={{ fontWeight: 900 }}>{m.known?.english}</div>
+              <div className="small">{m.known?.source === 'wanikani' ? 'WaniKani' : 'Your decks'}</div>
+            </div>
+            <div className="jpText" style={{ marginTop: 6, fontWeight: 800 }}>
+              {m.known?.kana}
+            </div>
+            {m.known?.kanji ? (
+              <div className="jpKanji" style={{ marginTop: 6 }}>
+                {m.known.kanji}
+              </div>
+            ) : null}
+            <div className="small" style={{ marginTop: 8 }}>
+              Class: <b>{classLabel(m)}</b>
+            </div>
+            <div className="small" style={{ marginTop: 6 }}>
+              Forms: <b>{chainLabel(m)}</b>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 function VerbConjugationRulesScreen(props: { deckName: string; onBack: () => void }) {
   const { deckName, onBack } = props;
   const smallStyle = { fontSize: 15, lineHeight: 1.7 } as const;
@@ -1282,7 +1694,7 @@ function VerbConjugationRulesScreen(props: { deckName: string; onBack: () => voi
       <div className="card">
         <div style={{ fontWeight: 900 }}>Verb classes</div>
         <div className="small" style={{ marginTop: 6, ...smallStyle }}>
-          This deck uses two classes:
+          This deck uses two main classes, plus a small honorific group:
         </div>
         <div className="small" style={{ marginTop: 8, ...smallStyle }}>
           <b>Ichidan (る-verb)</b>: stem = drop final <b>る</b>.
@@ -1294,6 +1706,11 @@ function VerbConjugationRulesScreen(props: { deckName: string; onBack: () => voi
           <br />
           Example: の<b>む</b> → のみ- (i-row)
         </div>
+        <div className="small" style={{ marginTop: 8, ...smallStyle }}>
+          <b>Honorific (keigo る-verb)</b>: godan る, but the ます-stem ends in <b>い</b>.
+          <br />
+          Example: くださ<b>る</b> → ください-
+        </div>
         <div className="small" style={{ marginTop: 8, ...smallStyle }}>
           Notes:
           <br />
@@ -1384,6 +1801,24 @@ function VerbConjugationRulesScreen(props: { deckName: string; onBack: () => voi
         </div>
       </div>
 
+      <div className="card" style={{ marginTop: 12 }}>
+        <div style={{ fontWeight: 900 }}>Honorific verbs (keigo)</div>
+        <div className="small" style={{ marginTop: 8, ...smallStyle }}>
+          くださる, いらっしゃる, おっしゃる, なさる, ござる drop る → り → い before ます, and use the い-stem as the command:
+          <br />
+          - くださる → くださいます / くださいません / くださいました (not くださります)
+          <br />
+          - いらっしゃる → いらっしゃいます · おっしゃる → おっしゃいます · なさる → なさいます
+          <br />
+          - command: ください / いらっしゃい / なさい
+          <br />
+          - ござる → ございます / ございません (only the polite forms are used)
+        </div>
+        <div className="small" style={{ marginTop: 8, ...smallStyle }}>
+          Every other form is regular godan る: くださらない · くださって / くださった · くだされば
+        </div>
+      </div>
+
       <div className="card" style={{ marginTop: 12 }}>
         <div style={{ fontWeight: 900 }}>Want (〜たい) family</div>
         <div className="small" style={{ marginTop: 8, ...smallStyle }}>
@@ -1412,10 +1847,12 @@ function ReviewScreen(props: {
   queue: CardId[];
   idx: number;
   setIdx: (idx: number) => void;
+  setQueue: (queue: CardId[]) => void;
   onExit: () => void;
+  mode: 'review' | 'practice';
   verbMode?: 'ladder' | 'mixed';
 }) {
-  const { state, setState, deckId, queue, idx, setIdx, onExit, verbMode } = props;
+  const { state, setState, deckId, queue, idx, setIdx, setQueue, onExit, mode, verbMode } = props;
   const cardId = queue[idx];
   const card = state.cards[cardId];
   const deck = state.decks[deckId];
@@ -1429,22 +1866,10 @@ function ReviewScreen(props: {
   const isKatakanaDeck = (deck?.name ?? '').toLowerCase().includes('katakana');
 
   const isVerbConjugationDeck = (deck?.name ?? '').toLowerCase().includes('verb conjugation');
+  const isAdjectiveConjugationDeck = deckName.includes('adjective conjugation');
   const verbFormLabel = (form: string | undefined): string => {
-    const f = (form ?? '').toLowerCase();
-    const known =
-      f === 'dictionary' ||
-      f === 'polite_present' ||
-      f === 'polite_negative' ||
-      f === 'te' ||
-      f === 'progressive' ||
-      f === 'past' ||
-      f === 'negative' ||
-      f === 'past_negative' ||
-      f === 'want' ||
-      f === 'dont_want' ||
-      f === 'want_past' ||
-      f === 'dont_want_past';
-    if (known) return seedVerbFormLabel(f as any);
+    const f = (form ?? '').trim().toLowerCase();
+    if (isVerbForm(f)) return seedVerbFormLabel(f);
     return form ? form : '—';
   };
 
@@ -1518,6 +1943,35 @@ function ReviewScreen(props: {
     if (form === 'dont_want') return `don't want to ${baseTitle}`;
     if (form === 'want_past') return `wanted to ${baseTitle}`;
     if (form === 'dont_want_past') return `didn't want to ${baseTitle}`;
+    if (form === 'polite_past') return `${pastOf(baseTitle)} (polite)`;
+    if (form === 'polite_past_negative') return `didn't ${baseTitle} (polite)`;
+    if (form === 'potential') return `can ${baseTitle}`;
+    if (form === 'passive') return `${baseTitle} (passive: be …-ed)`;
+    if (form === 'causative') return `make/let someone ${base}`;
+    if (form === 'causative_passive') return `is made to ${base}`;
+    if (form === 'volitional') return `let's ${base}`;
+    if (form === 'imperative') return `${baseTitle}! (command)`;
+    if (form === 'conditional_ba') return `if (I) ${base}`;
+    if (form === 'conditional_tara') return `when/if (I) ${base}`;
+    return baseTitle;
+  };
+
+  const adjectiveTargetEnglishGloss = (formRaw: string | undefined, englishPrompt: string): string => {
+    const form = (formRaw ?? '').trim().toLowerCase();
+    const base = (englishPrompt ?? '').split(';')[0]?.trim() ?? '';
+    if (!base) return '';
+    const baseTitle = `${base[0].toUpperCase()}${base.slice(1)}`;
+
+    if (form === 'plain') return `is ${base}`;
+    if (form === 'polite') return `is ${base} (polite)`;
+    if (form === 'negative') return `isn't ${base}`;
+    if (form === 'polite_negative') return `isn't ${base} (polite)`;
+    if (form === 'past') return `was ${base}`;
+    if (form === 'polite_past') return `was ${base} (polite)`;
+    if (form === 'past_negative') return `wasn't ${base}`;
+    if (form === 'polite_past_negative') return `wasn't ${base} (polite)`;
+    if (form === 'te') return `${baseTitle} (and…)`;
+    if (form === 'adverb') return `${baseTitle} (as an adverb: …ly)`;
     return baseTitle;
   };
 
@@ -1538,9 +1992,9 @@ function ReviewScreen(props: {
 
   const verbGroupKeyForCardId = (cid: CardId): string => {
     const c = state.cards[cid];
-    if (!c || c.type !== 'verb') return '';
-    const bk = (c.verbBaseKanji || '').trim();
-    const ba = (c.verbBaseKana || '').trim();
+    if (!c || (c.type !== 'verb' && c.type !== 'adjective')) return '';
+    const bk = ((c.type === 'adjective' ? c.adjectiveBaseKanji : c.verbBaseKanji) || '').trim();
+    const ba = ((c.type === 'adjective' ? c.adjectiveBaseKana : c.verbBaseKana) || '').trim();
     if (bk || ba) return `${bk}||${ba}`;
     const p = (c.prompt || '').trim().toLowerCase();
     if (p) return `prompt||${p}`;
@@ -1548,7 +2002,14 @@ function ReviewScreen(props: {
   };
 
   const [value, setValue] = useState('');
-  const [checked, setChecked] = useState<null | { correct: boolean; expected: string; got: string }>(null);
+  const [checked, setChecked] = useState<null | ReviewAttempt>(null);
+  const [shownAt, setShownAt] = useState(() => nowMs());
+  const [undoStack, setUndoStack] = useState<ReviewUndoSnapshot[]>([]);
+  const [graded, setGraded] = useState<ReviewGrade | null>(null);
+  const [leeched, setLeeched] = useState<LeechAction | null>(null);
+  const [closeSpelling, setCloseSpelling] = useState<string | null>(null);
+  const [nearMissRetry, setNearMissRetry] = useState<NearMissKind | null>(null);
+  const [acceptTypedAsAlternative, setAcceptTypedAsAlternative] = useState(true);
   const [showDetails, setShowDetails] = useState(false);
   const [showHint, setShowHint] = useState(false);
   const [showVerbSuffixHint, setShowVerbSuffixHint] = useState(false);
@@ -1559,11 +2020,16 @@ function ReviewScreen(props: {
   useEffect(() => {
     setValue('');
     setChecked(null);
+    setGraded(null);
+    setLeeched(null);
+    setCloseSpelling(null);
+    setNearMissRetry(null);
+    setShownAt(nowMs());
     setShowDetails(false);
     setShowHint(false);
     setShowVerbSuffixHint(false);
     setShowVerbClassRules(false);
-  }, [cardId]);
+  }, [cardId, idx]);
 
   if (!card) {
     return (
@@ -1576,16 +2042,28 @@ function ReviewScreen(props: {
   }
 
   const remaining = queue.length - idx;
-
-  const verbBaseKana = (card?.verbBaseKana || card?.answer || '').trim();
-  const verbBaseKanji = (card?.verbBaseKanji || '').trim();
+  const kanjiAnswer = deck?.answerInKanji && answerIsJapanese && !isKatakanaDeck ? kanjiAnswerForCard(card) : '';
+  // Shown beside the kana answer key; typing it is accepted through acceptedJapaneseForCard.
+  const verbKanjiSurface = card.type === 'verb' && answerIsJapanese && !kanjiAnswer ? kanjiAnswerForCard(card) : '';
+
+  // Adjective conjugation cards reuse the verb header, ladder and skip handling.
+  const isAdjectiveCard = isAdjectiveConjugationDeck && card.type === 'adjective';
+  const isConjugationCard = (isVerbConjugationDeck && card.type === 'verb') || isAdjectiveCard;
+  const adjectiveClass = isAdjectiveCard ? classifyAdjective(card.pos) : null;
+  const adjectiveForm = isAdjectiveCard && isAdjectiveForm(card.adjectiveForm) ? card.adjectiveForm : null;
+  const verbBaseKana = ((isAdjectiveCard ? card.adjectiveBaseKana : card.verbBaseKana) || card.answer || '').trim();
+  const verbBaseKanji = ((isAdjectiveCard ? card.adjectiveBaseKanji : card.verbBaseKanji) || '').trim();
   const verbBaseKey = `${verbBaseKanji}||${verbBaseKana}`;
-  const effectiveVerbMode: 'ladder' | 'mixed' | null =
-    isVerbConjugationDeck && card?.type === 'verb' ? (verbMode ?? 'ladder') : null;
-  const showVerbHeader = effectiveVerbMode !== null && verbBaseKey !== '||' && !!card?.verbForm;
+  const effectiveVerbMode: 'ladder' | 'mixed' | null = isConjugationCard ? (verbMode ?? 'ladder') : null;
+  const showVerbHeader =
+    effectiveVerbMode !== null && verbBaseKey !== '||' && (isAdjectiveCard ? !!adjectiveClass && !!adjectiveForm : !!card.verbForm);
   const showVerbLadder = showVerbHeader && effectiveVerbMode === 'ladder';
-  const verbTargetGloss = showVerbHeader ? verbTargetEnglishGloss(card.verbForm, card.prompt) : '';
-  const verbGroupKey = isVerbConjugationDeck && card?.type === 'verb' ? verbGroupKeyForCardId(cardId) : '';
+  const verbTargetGloss = !showVerbHeader
+    ? ''
+    : isAdjectiveCard
+      ? adjectiveTargetEnglishGloss(card.adjectiveForm, card.prompt)
+      : verbTargetEnglishGloss(card.verbForm, card.prompt);
+  const verbGroupKey = isConjugationCard ? verbGroupKeyForCardId(cardId) : '';
   const isVerbGroupSkipped = !!verbGroupKey && !!skippedVerbGroupKeys[verbGroupKey];
 
   const isSentenceWriting =
@@ -1678,7 +2156,7 @@ function ReviewScreen(props: {
 
   const verbHeaderTarget = (() => {
     if (!showVerbHeader) return { label: '', suffix: '' };
-    const full = verbFormLabel(card.verbForm);
+    const full = adjectiveClass && adjectiveForm ? adjectiveFormLabel(adjectiveForm, adjectiveClass) : verbFormLabel(card.verbForm);
     const m = full.match(/^(.*)\s+\((〜[^)]+)\)\s*$/);
     if (!m) return { label: full, suffix: '' };
     return { label: (m[1] ?? '').trim(), suffix: (m[2] ?? '').trim() };
@@ -1686,19 +2164,33 @@ function ReviewScreen(props: {
 
   const verbHeaderClass = (() => {
     if (!showVerbHeader) return { label: '', rules: '' };
+    if (adjectiveClass) {
+      return adjectiveClass === 'na'
+        ? { label: 'な-adjective', rules: 'Attach the copula: だ/です, じゃない, だった/でした, じゃなかった; で to connect, に as an adverb.' }
+        : {
+            label: 'い-adjective',
+            rules: 'Drop the final い and add くない/かった/くなかった/くて/く; add です for polite. いい uses よ- (よくない, よかった).',
+          };
+    }
     const baseKana = (card.verbBaseKana || '').trim();
     const baseKanji = (card.verbBaseKanji || '').trim() || undefined;
     const cls = classifyVerb(baseKana, baseKanji);
-    const label = cls === 'ichidan' ? 'Ichidan (る-verb)' : 'Godan (う-verb)';
+    const label = cls === 'ichidan' ? 'Ichidan (る-verb)' : cls === 'honorific' ? 'Honorific (keigo る-verb)' : 'Godan (う-verb)';
     const rules =
       cls === 'ichidan'
         ? 'Drop る to get the stem, then attach endings (ます/ません/ない/て/た/etc.).'
-        : 'Change the last kana based on the ending pattern (i-row for ます/ません, a-row for ない/なかった, and te/ta patterns for て/た).';
+        : cls === 'honorific'
+          ? 'Conjugates like godan る, except ます/ません/ました and the command use an い-stem (くださる → くださいます, ください).'
+          : 'Change the last kana based on the ending pattern (i-row for ます/ません, a-row for ない/なかった, and te/ta patterns for て/た).';
     return { label, rules };
   })();
 
   const verbRuleText = (() => {
     if (!showVerbHeader) return '';
+    if (adjectiveClass && adjectiveForm) {
+      const rule = adjectiveQuickRuleText(adjectiveForm, verbBaseKana, adjectiveClass).replace(/^- /, '');
+      return `Target: ${adjectiveFormLabel(adjectiveForm, adjectiveClass)}\nRule: ${rule}\nResult: ${(card.kanji || card.answer).trim()}`;
+    }
     const baseKana = (card.verbBaseKana || '').trim();
     const baseKanji = (card.verbBaseKanji || '').trim() || undefined;
     const form = (card.verbForm || '').trim().toLowerCase();
@@ -1707,7 +2199,7 @@ function ReviewScreen(props: {
     const cls = classifyVerb(baseKana || (card?.kanji || card?.answer || '').trim(), baseKanji);
 
     const suruLike = !!baseKana && baseKana.endsWith('する');
-    const kuruLike = !!baseKana && baseKana.endsWith('くる');
+    const kuruLike = !!baseKana && isKuruVerb(baseKana, baseKanji);
     const dropSuruOrKuru = (s: string): string => {
       if (!s) return s;
       if (s.endsWith('する')) return s.slice(0, -2);
@@ -1744,7 +2236,12 @@ function ReviewScreen(props: {
     const ichidanStem = dropLastKana(baseDisp);
     const stem = cls === 'ichidan' ? ichidanStem : godanStem;
 
-    const header = `Base: ${baseDisp}\nClass: ${cls === 'ichidan' ? 'Ichidan (る-verb)' : 'Godan (う-verb)'}\nTarget: ${verbFormLabel(card.verbForm)}\n`;
+    const classText = cls === 'ichidan' ? 'Ichidan (る-verb)' : cls === 'honorific' ? 'Honorific (keigo る-verb)' : 'Godan (う-verb)';
+    const header = `Base: ${baseDisp}\nClass: ${classText}\nTarget: ${verbFormLabel(card.verbForm)}\n`;
+
+    if (cls === 'honorific' && isVerbForm(form) && form !== 'dictionary') {
+      return `${header}\nRule: ${verbQuickRuleText(form, baseKana, cls).replace(/^- /, '')}\nResult: ${answerDisp}`;
+    }
 
     if (form === 'dictionary') {
       if (suruLike) return `${header}\nRule: する is irregular. (Use します/して/した/しない...)`;
@@ -1822,7 +2319,7 @@ function ReviewScreen(props: {
     }
 
     if (form === 'progressive') {
-      const te = seedConjugateVerb(baseDisp, baseKana, 'te' as any, cls as any);
+      const te = seedConjugateVerb(baseDisp, baseKana, 'te', cls);
       return `${header}\nRule: progressive is te-form + いる\n${baseDisp} → ${te} + いる\nResult: ${answerDisp}`;
     }
 
@@ -1862,6 +2359,8 @@ function ReviewScreen(props: {
       return `${header}\nRule: attach ${tail} to the verb stem (ます-stem)\n${baseDisp} → ${stem}${tail}\nNote: 〜たい behaves like an i-adjective.\nResult: ${answerDisp}`;
     }
 
+    const quickRule = isVerbForm(form) ? verbQuickRuleText(form, baseKana, cls).replace(/^- /, '') : '';
+    if (quickRule) return `${header}\nRule: ${quickRule}\nResult: ${answerDisp}`;
     return `${header}\nRule: (no rule available)`;
   })();
 
@@ -1945,52 +2444,216 @@ function ReviewScreen(props: {
 
   const onSubmit = () => {
     if (checked) return;
-    const committed = answerIsJapanese
-      ? isKatakanaDeck
+    const committed = kanjiAnswer
+      ? value.trim()
+      : answerIsJapanese
+        ? isKatakanaDeck
         ? toKatakana(value, { passRomaji: false })
         : toHiragana(value, { passRomaji: false })
       : value.trim();
     setValue(committed);
-    const correct = answerIsJapanese
-      ? isKatakanaDeck
-        ? normalizeKatakana(committed) === normalizeKatakana(card.answer)
-        : isCorrect(committed, card.answer)
-      : isCorrectEnglish(committed, card.answer);
-    setChecked({ correct, expected: card.answer, got: committed });
+    const english = answerIsJapanese ? null : gradeEnglish(committed, [card.answer, ...(card.alternatives ?? [])].join('; '));
+    // One free retry for a near-miss spelling; a second near miss counts as wrong.
+    if (english?.verdict === 'close' && !closeSpelling) {
+      setCloseSpelling(english.closest ?? card.answer);
+      return;
+    }
+    const matched = english || isKatakanaDeck || kanjiAnswer ? undefined : matchJapanese(committed, acceptedJapaneseForCard(card));
+    const correct = english
+      ? english.verdict === 'correct'
+      : kanjiAnswer
+        ? [kanjiAnswer, ...(card.alternatives ?? []).filter(hasKanji)].some((a) => normalizeSurface(a) === normalizeSurface(committed))
+        : isKatakanaDeck
+        ? [card.answer, ...(card.alternatives ?? [])].some((a) => normalizeKatakana(committed) === normalizeKatakana(a))
+        : !!matched;
+    const nearMiss =
+      !correct && answerIsJapanese && !kanjiAnswer
+        ? acceptedJapaneseForCard(card)
+            .filter((a) => !hasKanji(a.text))
+            .map((a) => classifyNearMiss(committed, a.text))
+            .find(Boolean) ?? undefined
+        : undefined;
+    if (nearMiss && deck?.nearMissRetry && !nearMissRetry) {
+      setNearMissRetry(nearMiss);
+      return;
+    }
+    const sentence =
+      !correct && card.type === 'sentence' && answerIsJapanese && !isKatakanaDeck && !kanjiAnswer
+        ? scoreSentence(committed, card.answer, card.background)
+        : undefined;
+    const attempt = {
+      correct,
+      expected: kanjiAnswer || card.answer,
+      got: committed,
+      responseMs: nowMs() - shownAt,
+      matched,
+      nearMiss: nearMiss ?? nearMissRetry ?? undefined,
+      sentence,
+    };
+    setChecked(attempt);
     setShowDetails(true);
 
-    const now = nowMs();
-    const prev = state.srs[card.id] ?? defaultSrs(card.id, now);
-    const next = applySm2(prev, { correct }, now);
+    if (!correct) applyGrade(sentence ? sentenceScoreGrade(sentence.score) : 'again', attempt);
+  };
 
-    const prevStats = state.stats?.[card.id] ?? { reviews: 0, correct: 0 };
+  const reviewOptionsAt = (now: number): ReviewOptions => ({
+    ...reviewOptionsForDeck(deck),
+    dueCountByDay: deck?.loadBalance ? getDueHistogramForDeck(state, deckId, now) : undefined,
+  });
+
+  // Returns whether the card was re-queued for another pass this session.
+  // `base` lets the "I was right" override re-grade on top of a rolled-back state within the same event.
+  const applyGrade = (
+    grade: ReviewGrade,
+    attempt: ReviewAttempt,
+    base: { state: AppState; queue: CardId[]; undoCard?: Card } = { state, queue },
+  ): boolean => {
+    const { state: st, queue: q } = base;
+    const c = st.cards[card.id] ?? card;
+    // A partly-right sentence is scheduled as Hard but still counts as a wrong answer in stats and the log.
+    const correct = attempt.correct;
+    const now = nowMs();
+    const prev = st.srs[card.id] ?? defaultSrs(card.id, now);
+    const reviewed = applyReview(prev, { correct, grade }, now, reviewOptionsAt(now));
+    const leechAction = leechActionForReview(prev, reviewed, deck);
+    const next = leechAction === 'suspend' ? { ...reviewed, suspended: true } : reviewed;
+    const nextCard = leechAction && !c.tags?.includes(LEECH_TAG) ? { ...c, tags: [...(c.tags ?? []), LEECH_TAG] } : c;
+    const dailyCounts = recordDailyReview(st, card.deckId, srsQueueKind(st.srs[card.id]), now, card.id);
+
+    const prevStats = st.stats?.[card.id] ?? { reviews: 0, correct: 0 };
     const nextStats = {
       reviews: prevStats.reviews + 1,
       correct: prevStats.correct + (correct ? 1 : 0),
     };
 
+    // Siblings already in this session (e.g. the rest of a verb ladder) stay; later sessions skip them until tomorrow.
+    const siblingIds =
+      mode === 'review' && deck?.burySiblings
+        ? getSiblingCardIds(st, card.id).filter((id) => !q.includes(id) && isCardActive(st, id, now))
+        : [];
+    const withSiblings = patchCardSrs(st, siblingIds, { buriedUntil: startOfNextDay(now) }, now);
+
     setState({
-      ...state,
+      ...st,
+      cards: nextCard === st.cards[card.id] ? st.cards : { ...st.cards, [card.id]: nextCard },
       srs: {
-        ...state.srs,
+        ...withSiblings.srs,
         [card.id]: next,
       },
       stats: {
-        ...(state.stats ?? {}),
+        ...(st.stats ?? {}),
         [card.id]: nextStats,
       },
+      dailyCounts,
     });
+    setGraded(grade);
+    setLeeched(leechAction);
+
+    const requeue = !next.suspended && !!next.phase && next.due - now <= LEARN_AHEAD_MS;
+    const logId = appendReviewLog({
+      ts: now,
+      cardId: card.id,
+      deckId: card.deckId,
+      typed: attempt.got,
+      correct,
+      grade,
+      prevIntervalDays: prev.intervalDays,
+      nextIntervalDays: next.intervalDays,
+      nextDue: next.due,
+      easeFactor: next.easeFactor,
+      responseMs: attempt.responseMs,
+      errorKind: attempt.nearMiss,
+      lapse: reviewed.lapses > prev.lapses || undefined,
+    });
+    setUndoStack((prevStack) => [
+      ...prevStack,
+      {
+        idx,
+        queue: q,
+        card: base.undoCard ?? c,
+        srsById: Object.fromEntries([card.id, ...siblingIds].map((id) => [id, st.srs[id]])),
+        stats: st.stats?.[card.id],
+        dailyCounts: st.dailyCounts,
+        logId,
+      },
+    ]);
+
+    if (requeue) setQueue([...q, card.id]);
+    return requeue;
   };
 
-  const onNext = () => {
-    if (!checked) return;
-    if (idx + 1 >= queue.length) {
+  const restoreSnapshot = (snap: ReviewUndoSnapshot): AppState => {
+    const id = snap.card.id;
+    const srs = { ...state.srs };
+    for (const [cid, prevSrs] of Object.entries(snap.srsById)) {
+      if (prevSrs) srs[cid] = prevSrs;
+      else delete srs[cid];
+    }
+    const stats = { ...(state.stats ?? {}) };
+    if (snap.stats) stats[id] = snap.stats;
+    else delete stats[id];
+    void snap.logId.then((logId) => (logId === undefined ? undefined : deleteReviewLogEntry(logId)));
+
+    return {
+      ...state,
+      cards: { ...state.cards, [id]: snap.card },
+      srs,
+      stats,
+      dailyCounts: snap.dailyCounts,
+    };
+  };
+
+  const onUndo = () => {
+    const snap = undoStack[undoStack.length - 1];
+    if (!snap) return;
+    setUndoStack(undoStack.slice(0, -1));
+    setState(restoreSnapshot(snap));
+
+    setQueue(snap.queue);
+    setIdx(snap.idx);
+    // Same position means the cardId effect won't fire, so clear the answer here.
+    setValue('');
+    setChecked(null);
+    setGraded(null);
+    setLeeched(null);
+    setCloseSpelling(null);
+    setNearMissRetry(null);
+    setShownAt(nowMs());
+  };
+
+  const onOverrideCorrect = () => {
+    const snap = undoStack[undoStack.length - 1];
+    if (!checked || checked.correct || !snap || snap.idx !== idx || snap.card.id !== card.id) return;
+    setUndoStack(undoStack.slice(0, -1));
+
+    let restored = restoreSnapshot(snap);
+    const typed = normalizeAlternative(checked.got, answerIsJapanese);
+    const known = [card.answer, ...(card.alternatives ?? [])].map((a) => normalizeAlternative(a, answerIsJapanese));
+    if (acceptTypedAsAlternative && typed && !known.includes(typed)) {
+      const c = restored.cards[card.id];
+      restored = { ...restored, cards: { ...restored.cards, [card.id]: { ...c, alternatives: [...(c.alternatives ?? []), typed] } } };
+    }
+
+    const attempt = { ...checked, correct: true, nearMiss: undefined, sentence: undefined };
+    setQueue(snap.queue);
+    setChecked(attempt);
+    // Undo should also take back the alternative added above, so the snapshot keeps the card as it was.
+    applyGrade('good', attempt, { state: restored, queue: snap.queue, undoCard: snap.card });
+  };
+
+  const advance = (requeued: boolean) => {
+    if (idx + 1 >= queue.length + (requeued ? 1 : 0)) {
       onExit();
       return;
     }
     setIdx(idx + 1);
   };
 
+  const onNext = () => {
+    if (!checked) return;
+    advance(checked.correct && !graded ? applyGrade('good', checked) : false);
+  };
+
   const skipToNextUnskipped = (startAt: number): number | null => {
     for (let j = startAt; j < queue.length; j += 1) {
       const k = verbGroupKeyForCardId(queue[j]);
@@ -2000,6 +2663,20 @@ function ReviewScreen(props: {
     return null;
   };
 
+  const onTakeOutOfRotation = (action: 'suspend' | 'bury') => {
+    const now = nowMs();
+    const patch = action === 'suspend' ? { suspended: true } : { buriedUntil: startOfNextDay(now) };
+    setState(patchCardSrs(state, [card.id], patch, now));
+
+    const rest = queue.filter((id, j) => j <= idx || id !== card.id);
+    if (rest.length !== queue.length) setQueue(rest);
+    if (idx + 1 >= rest.length) {
+      onExit();
+      return;
+    }
+    setIdx(idx + 1);
+  };
+
   const onSkipVerb = () => {
     if (!verbGroupKey) return;
     setSkippedVerbGroupKeys((prev) => (prev[verbGroupKey] ? prev : { ...prev, [verbGroupKey]: true }));
@@ -2030,11 +2707,56 @@ function ReviewScreen(props: {
     else setIdx(nextIdx);
   }, [idx, isVerbGroupSkipped, onExit, setIdx, skippedVerbGroupKeys, verbGroupKey]);
 
+  const onGrade = (grade: ReviewGrade) => {
+    if (!checked || graded) return;
+    advance(applyGrade(grade, checked));
+  };
+
+  const answerDiff = ((): DiffOp[] | null => {
+    if (!checked || checked.correct) return null;
+    if (answerIsJapanese) {
+      const norm = kanjiAnswer ? normalizeSurface : isKatakanaDeck ? normalizeKatakana : normalizeJapanese;
+      return diffAnswer(norm(checked.expected), norm(checked.got), 'kana');
+    }
+    const got = normalizeEnglish(checked.got);
+    const diffs = englishAcceptableAnswers(checked.expected).map((variant) => diffAnswer(variant, got, 'english'));
+    return diffs.reduce((best, d) => (diffCost(d) < diffCost(best) ? d : best), diffs[0] ?? []);
+  })();
+
+  const verbMistake =
+    checked && !checked.correct && showVerbHeader && card.type === 'verb'
+      ? diagnoseVerbMistake(checked.got, {
+          baseKana: card.verbBaseKana ?? '',
+          baseKanji: card.verbBaseKanji,
+          form: card.verbForm ?? '',
+        })
+      : null;
+
+  const awaitingGrade = !!checked && checked.correct && !graded;
+  const gradeIntervals = awaitingGrade
+    ? previewReviewIntervals(state.srs[card.id] ?? defaultSrs(card.id, nowMs()), nowMs(), reviewOptionsAt(nowMs()))
+    : null;
+
   useEffect(() => {
     const onKeyDown = (e: globalThis.KeyboardEvent) => {
-      if (e.key !== 'Enter') return;
+      // Leave Ctrl/Cmd+Z to the text field while an answer is being typed.
+      if ((e.metaKey || e.ctrlKey) && !e.shiftKey && e.key.toLowerCase() === 'z' && (checked || !value)) {
+        if (undoStack.length === 0) return;
+        e.preventDefault();
+        onUndo();
+        return;
+      }
+
       if (e.metaKey || e.ctrlKey || e.altKey) return;
-      if (e.repeat) return;
+      if (e.repeat || e.isComposing) return;
+
+      if (awaitingGrade && (e.key === '2' || e.key === '3' || e.key === '4')) {
+        e.preventDefault();
+        onGrade(e.key === '2' ? 'hard' : e.key === '3' ? 'good' : 'easy');
+        return;
+      }
+
+      if (e.key !== 'Enter') return;
 
       e.preventDefault();
 
@@ -2048,7 +2770,7 @@ function ReviewScreen(props: {
 
     window.addEventListener('keydown', onKeyDown);
     return () => window.removeEventListener('keydown', onKeyDown);
-  }, [checked, onNext, onSubmit]);
+  }, [awaitingGrade, checked, onGrade, onNext, onSubmit, onUndo, undoStack, value]);
 
   const questionAndHints = (
     <>
@@ -2196,13 +2918,13 @@ function ReviewScreen(props: {
   const answerAndKey = (
     <>
       <div className="answerBox">
-        <label>{answerIsJapanese ? 'Answer (kana)' : 'Answer (English)'}</label>
+        <label>{kanjiAnswer ? 'Answer (kanji)' : answerIsJapanese ? 'Answer (kana)' : 'Answer (English)'}</label>
         <input
           value={value}
           autoFocus
           className={answerIsJapanese ? 'jpInput' : undefined}
           onChange={(e: ChangeEvent<HTMLInputElement>) => {
-            if (answerIsJapanese) {
+            if (answerIsJapanese && !kanjiAnswer) {
               setValue(
                 isKatakanaDeck
                   ? toKatakana(e.target.value, { passRomaji: false, IMEMode: true })
@@ -2217,28 +2939,91 @@ function ReviewScreen(props: {
               e.preventDefault();
             }
           }}
-          placeholder={answerIsJapanese ? 'type romaji…' : 'type meaning…'}
+          placeholder={kanjiAnswer ? 'type with a Japanese IME…' : answerIsJapanese ? 'type romaji…' : 'type meaning…'}
         />
         <div className="small" style={{ marginTop: 8 }}>
           <span>
             Enter to {checked ? 'continue' : 'submit'}. Normalized:{' '}
           </span>
-          <b>{answerIsJapanese ? (isKatakanaDeck ? normalizeKatakana(value) : normalizeJapanese(value)) : normalizeEnglish(value)}</b>
+          <b>
+            {kanjiAnswer
+              ? normalizeSurface(value)
+              : answerIsJapanese
+                ? isKatakanaDeck
+                  ? normalizeKatakana(value)
+                  : normalizeJapanese(value)
+                : normalizeEnglish(value)}
+          </b>
         </div>
+        {nearMissRetry && !checked ? (
+          <div className="small" style={{ marginTop: 8, fontWeight: 700 }}>
+            Almost. {NEAR_MISS_HINTS[nearMissRetry]} Try once more before it's scored.
+          </div>
+        ) : null}
+        {closeSpelling && !checked ? (
+          <div className="small" style={{ marginTop: 8, fontWeight: 700 }}>
+            Close, check spelling: <b>{closeSpelling}</b>. Fix it and submit again (no penalty).
+          </div>
+        ) : null}
       </div>
 
       {checked ? (
         <div className={`feedback ${checked.correct ? 'good' : 'bad'}`}>
           <div style={{ fontWeight: 900, color: checked.correct ? 'var(--good)' : 'var(--bad)' }}>
             {checked.correct ? 'Correct' : 'Incorrect'}
+            {!checked.correct ? <span className="small"> · {graded === 'hard' ? 'Hard (partial credit)' : 'Again'}</span> : null}
           </div>
 
-          <div className="small" style={{ marginTop: 6 }}>
-            Attempts: <b>{state.stats?.[card.id]?.reviews ?? 0}</b> · Correct:{' '}
-            <b>{state.stats?.[card.id]?.correct ?? 0}</b>
-          </div>
+          {!checked.correct && graded && graded !== 'good' && checked.got.trim() ? (
+            <div style={{ marginTop: 8 }} className="row">
+              <button onClick={onOverrideCorrect} title="Count this answer as correct (Good)">
+                I was right
+              </button>
+              <label style={{ display: 'flex', gap: 8, alignItems: 'center', margin: 0 }} className="small">
+                <input
+                  type="checkbox"
+                  checked={acceptTypedAsAlternative}
+                  onChange={(e: ChangeEvent<HTMLInputElement>) => setAcceptTypedAsAlternative(e.target.checked)}
+                  style={{ width: 'auto' }}
+                />
+                Also accept “{checked.got.trim()}” next time
+              </label>
+            </div>
+          ) : null}
 
-          <div style={{ marginTop: 10 }} className="row">
+          {!checked.correct && checked.nearMiss ? (
+            <div className="small" style={{ marginTop: 6, fontWeight: 700 }}>
+              {NEAR_MISS_HINTS[checked.nearMiss]}
+            </div>
+          ) : null}
+
+          {checked.sentence ? <SentenceSegments score={checked.sentence} /> : null}
+
+          {verbMistake ? (
+            <div className="small" style={{ marginTop: 6, whiteSpace: 'pre-wrap' }}>
+              <b>Rule broken:</b> {verbMistake.explanation}
+            </div>
+          ) : null}
+
+          {checked.matched && checked.matched.label !== 'kana' ? (
+            <div className="small" style={{ marginTop: 6 }}>
+              Matched the {checked.matched.label} form: <b>{checked.matched.text}</b>
+            </div>
+          ) : null}
+
+          {leeched ? (
+            <div className="small" style={{ marginTop: 6, fontWeight: 700 }}>
+              Leech: this card has lapsed {state.srs[card.id]?.lapses ?? 0} times
+              {leeched === 'suspend' ? ' and was suspended' : ' and was tagged'}. Fix it from the Leeches screen.
+            </div>
+          ) : null}
+
+          <div className="small" style={{ marginTop: 6 }}>
+            Attempts: <b>{state.stats?.[card.id]?.reviews ?? 0}</b> · Correct:{' '}
+            <b>{state.stats?.[card.id]?.correct ?? 0}</b>
+          </div>
+
+          <div style={{ marginTop: 10 }} className="row">
             <button onClick={() => setShowDetails((s) => !s)}>{showDetails ? 'Hide details' : 'Show details'}</button>
           </div>
 
@@ -2247,16 +3032,36 @@ function ReviewScreen(props: {
               <div style={{ marginTop: 8 }} className="small">
                 Expected
               </div>
-              <div className={`expected ${answerIsJapanese ? 'jpText' : ''}`}>{checked.expected}</div>
+              <div className={`expected ${answerIsJapanese ? 'jpText' : ''}`}>
+                {kanjiAnswer ? <Furigana text={checked.expected} reading={card.answer} /> : checked.expected}
+              </div>
+              {verbKanjiSurface ? (
+                <div className="small jpText" style={{ marginTop: 4 }}>
+                  Written: <b><Furigana text={verbKanjiSurface} reading={card.answer} /></b>
+                </div>
+              ) : null}
+              {answerDiff ? <AnswerDiff ops={answerDiff} japanese={answerIsJapanese} /> : null}
+              {card.alternatives?.length ? (
+                <div className="small" style={{ marginTop: 4 }}>
+                  Also accepted: <b>{card.alternatives.join(' · ')}</b>
+                </div>
+              ) : null}
+              {card.answerPattern ? (
+                <div className="small" style={{ marginTop: 4 }}>
+                  Pattern: <b>{card.answerPattern}</b>
+                </div>
+              ) : null}
               <div style={{ marginTop: 8 }} className="small">
                 You typed
               </div>
               <div className={answerIsJapanese ? 'jpText' : undefined} style={{ fontWeight: 800 }}>
-                {(answerIsJapanese
-                  ? isKatakanaDeck
-                    ? normalizeKatakana(checked.got)
-                    : normalizeJapanese(checked.got)
-                  : normalizeEnglish(checked.got)) || '—'}
+                {(kanjiAnswer
+                  ? normalizeSurface(checked.got)
+                  : answerIsJapanese
+                    ? isKatakanaDeck
+                      ? normalizeKatakana(checked.got)
+                      : normalizeJapanese(checked.got)
+                    : normalizeEnglish(checked.got)) || '—'}
               </div>
             </>
           ) : null}
@@ -2281,7 +3086,7 @@ function ReviewScreen(props: {
               ) : null}
               {card.background ? (
                 <>
-                  <div className="small">{card.type === 'sentence' ? 'Breakdown' : card.type === 'verb' ? 'Explanation' : 'Background'}</div>
+                  <div className="small">{card.type === 'sentence' ? 'Breakdown' : card.type === 'verb' || card.type === 'adjective' ? 'Explanation' : 'Background'}</div>
                   <div style={{ marginTop: 6, fontWeight: 700, whiteSpace: 'pre-wrap' }}>{breakdownText}</div>
                 </>
               ) : null}
@@ -2324,15 +3129,37 @@ function ReviewScreen(props: {
             </div>
           ) : null}
 
+          {awaitingGrade && gradeIntervals ? (
+            <div style={{ marginTop: 12 }}>
+              <div className="small">How did that feel? (keys 2 / 3 / 4, Enter = Good)</div>
+              <div style={{ marginTop: 6 }} className="row">
+                <button onClick={() => onGrade('hard')}>Hard · {formatInterval(gradeIntervals.hard)}</button>
+                <button className="primary" onClick={() => onGrade('good')}>
+                  Good · {formatInterval(gradeIntervals.good)}
+                </button>
+                <button onClick={() => onGrade('easy')}>Easy · {formatInterval(gradeIntervals.easy)}</button>
+              </div>
+            </div>
+          ) : null}
+
           <div style={{ marginTop: 12 }} className="row">
-            <button className="primary" onClick={onNext}>
-              {idx + 1 >= queue.length ? 'Finish' : 'Next'}
-            </button>
-            {isVerbConjugationDeck && card.type === 'verb' ? (
+            {!awaitingGrade ? (
+              <button className="primary" onClick={onNext}>
+                {idx + 1 >= queue.length ? 'Finish' : 'Next'}
+              </button>
+            ) : null}
+            {isConjugationCard ? (
               <button onClick={onSkipVerb} disabled={!verbGroupKey}>
-                Skip this verb
+                {isAdjectiveCard ? 'Skip this adjective' : 'Skip this verb'}
               </button>
             ) : null}
+            <div style={{ flex: 1 }} />
+            <button onClick={() => onTakeOutOfRotation('bury')} title="Hide this card until tomorrow">
+              Bury
+            </button>
+            <button onClick={() => onTakeOutOfRotation('suspend')} title="Hide this card until you unsuspend it">
+              Suspend
+            </button>
           </div>
         </div>
       ) : (
@@ -2340,11 +3167,18 @@ function ReviewScreen(props: {
           <button className="primary" onClick={onSubmit}>
             Check
           </button>
-          {isVerbConjugationDeck && card.type === 'verb' ? (
+          {isConjugationCard ? (
             <button onClick={onSkipVerb} disabled={!verbGroupKey}>
-              Skip this verb
+              {isAdjectiveCard ? 'Skip this adjective' : 'Skip this verb'}
             </button>
           ) : null}
+          <div style={{ flex: 1 }} />
+          <button onClick={() => onTakeOutOfRotation('bury')} title="Hide this card until tomorrow">
+            Bury
+          </button>
+          <button onClick={() => onTakeOutOfRotation('suspend')} title="Hide this card until you unsuspend it">
+            Suspend
+          </button>
         </div>
       )}
     </>
@@ -2363,6 +3197,9 @@ function ReviewScreen(props: {
           </div>
         </div>
         <div className="row">
+          <button onClick={onUndo} disabled={undoStack.length === 0} title="Undo the last answer (Ctrl/Cmd+Z)">
+            Undo
+          </button>
           <button onClick={onExit}>Exit</button>
         </div>
       </div>
@@ -2430,6 +3267,10 @@ function ManageScreen(props: {
   const [kanji, setKanji] = useState('');
   const [background, setBackground] = useState('');
   const [examples, setExamples] = useState('');
+  const [alternatives, setAlternatives] = useState('');
+  const [answerPattern, setAnswerPattern] = useState('');
+  const [editQuery, setEditQuery] = useState('');
+  const [editingCardId, setEditingCardId] = useState<CardId | null>(null);
   const [io, setIo] = useState('');
   const [wkTokenDraft, setWkTokenDraft] = useState(state.wkApiToken ?? '');
   const [wkTokenVisible, setWkTokenVisible] = useState(false);
@@ -2437,11 +3278,44 @@ function ManageScreen(props: {
   const [wkImportBusy, setWkImportBusy] = useState(false);
   const [wkImportMsg, setWkImportMsg] = useState<string | null>(null);
   const [wkImportAlsoConjugate, setWkImportAlsoConjugate] = useState(true);
+  const [settingsDeckId, setSettingsDeckId] = useState<DeckId>(deckList[0]?.id ?? '');
+  const [learningStepsDraft, setLearningStepsDraft] = useState('');
+  const [relearningStepsDraft, setRelearningStepsDraft] = useState('');
+  const [newPerDayDraft, setNewPerDayDraft] = useState('');
+  const [reviewsPerDayDraft, setReviewsPerDayDraft] = useState('');
+  const [leechThresholdDraft, setLeechThresholdDraft] = useState('');
 
   useEffect(() => {
     if (!deckId && deckList[0]?.id) setDeckId(deckList[0].id);
   }, [deckId, deckList]);
 
+  useEffect(() => {
+    if (!settingsDeckId && deckList[0]?.id) setSettingsDeckId(deckList[0].id);
+  }, [settingsDeckId, deckList]);
+
+  const settingsLearningSteps = state.decks[settingsDeckId]?.learningSteps ?? DEFAULT_LEARNING_STEPS;
+  const settingsRelearningSteps = state.decks[settingsDeckId]?.relearningSteps ?? DEFAULT_RELEARNING_STEPS;
+
+  useEffect(() => {
+    setLearningStepsDraft(settingsLearningSteps.join(' '));
+    setRelearningStepsDraft(settingsRelearningSteps.join(' '));
+  }, [settingsLearningSteps, settingsRelearningSteps]);
+
+  const settingsDeckForLimits = state.decks[settingsDeckId];
+  const settingsNewPerDay = settingsDeckForLimits ? newPerDayForDeck(state, settingsDeckForLimits) : DEFAULT_NEW_CARDS_PER_DAY;
+  const settingsReviewsPerDay = state.decks[settingsDeckId]?.maxReviewsPerDay ?? DEFAULT_MAX_REVIEWS_PER_DAY;
+
+  useEffect(() => {
+    setNewPerDayDraft(String(settingsNewPerDay));
+    setReviewsPerDayDraft(String(settingsReviewsPerDay));
+  }, [settingsNewPerDay, settingsReviewsPerDay]);
+
+  const settingsLeechThreshold = state.decks[settingsDeckId]?.leechThreshold ?? DEFAULT_LEECH_THRESHOLD;
+
+  useEffect(() => {
+    setLeechThresholdDraft(String(settingsLeechThreshold));
+  }, [settingsLeechThreshold]);
+
   useEffect(() => {
     setWkTokenDraft(state.wkApiToken ?? '');
   }, [state.wkApiToken]);
@@ -2614,41 +3488,14 @@ function ManageScreen(props: {
         }
 
         if (wkImportAlsoConjugate && verbConjDeckId) {
-          const forms: Array<
-            | 'dictionary'
-            | 'polite_present'
-            | 'polite_negative'
-            | 'te'
-            | 'progressive'
-            | 'past'
-            | 'negative'
-            | 'past_negative'
-            | 'want'
-            | 'dont_want'
-            | 'want_past'
-            | 'dont_want_past'
-          > = [
-            'dictionary',
-            'polite_present',
-            'polite_negative',
-            'te',
-            'progressive',
-            'past',
-            'negative',
-            'past_negative',
-            'want',
-            'dont_want',
-            'want_past',
-            'dont_want_past',
-          ];
 
           const cls = classifyVerb(kana, kanji);
-          for (const form of forms) {
-            const answerKana = seedConjugateVerb(kana, kana, form as any, cls as any);
-            const answerKanji = kanji ? seedConjugateVerb(kanji, kana, form as any, cls as any) : undefined;
+          for (const form of verbFormsForBase(kana)) {
+            const answerKana = seedConjugateVerb(kana, kana, form, cls);
+            const answerKanji = kanji ? seedConjugateVerb(kanji, kana, form, cls) : undefined;
             const fromDisp = kanji || kana;
             const toDisp = answerKanji || answerKana;
-            const conjBg = `Conjugation: ${fromDisp} → ${toDisp} (${seedVerbFormLabel(form as any)}). Source: WaniKani L${s.data.level}.`;
+            const conjBg = `Conjugation: ${fromDisp} → ${toDisp} (${seedVerbFormLabel(form)}). Source: WaniKani L${s.data.level}.`;
 
             const verbCard: Card = {
               id: makeId('card'),
@@ -2657,7 +3504,7 @@ function ManageScreen(props: {
               pos,
               prompt: english,
               answer: normalizeJapanese(answerKana),
-              note: verbConjugationHintText(form as any, kana, cls as any, answerKana),
+              note: verbConjugationHintText(form, kana, cls, answerKana),
               kanji: answerKanji,
               background: conjBg,
               exampleSentences: ex,
@@ -2707,6 +3554,7 @@ function ManageScreen(props: {
   const inferType = (d: string): Card['type'] => {
     const n = state.decks[d]?.name.toLowerCase() ?? '';
     if (n.includes('verb')) return 'verb';
+    if (n.includes('adjective conjugation')) return 'adjective';
     if (n.includes('sentence')) return 'sentence';
     return 'vocab';
   };
@@ -2737,12 +3585,20 @@ function ManageScreen(props: {
       })
       .filter(Boolean) as ExampleSentence[];
 
+    const type = inferType(deckId);
+    const pattern = type === 'sentence' && !isJaEn ? answerPattern.trim() : '';
+    const patternError = pattern ? answerPatternError(pattern, a) : null;
+    if (patternError) {
+      alert(`Answer pattern: ${patternError}`);
+      return;
+    }
+
     const exDeduped = dedupeExamples(ex);
 
     const newCard: Card = {
       id: makeId('card'),
       deckId,
-      type: inferType(deckId),
+      type,
       pos: pos.trim() || undefined,
       prompt: p,
       answer: a,
@@ -2750,6 +3606,8 @@ function ManageScreen(props: {
       kanji: kanji.trim() || undefined,
       background: background.trim() || undefined,
       exampleSentences: exDeduped.length ? exDeduped : undefined,
+      alternatives: parseAlternatives(alternatives, !isJaEn),
+      answerPattern: pattern || undefined,
     };
 
     setState({
@@ -2774,6 +3632,87 @@ function ManageScreen(props: {
     setKanji('');
     setBackground('');
     setExamples('');
+    setAlternatives('');
+    setAnswerPattern('');
+  };
+
+  const onChangeScheduler = (scheduler: SchedulerKind) => {
+    const d = state.decks[settingsDeckId];
+    if (!d) return;
+
+    let srs = state.srs;
+    if (scheduler === 'fsrs') {
+      const nextSrs = { ...state.srs };
+      for (const id of d.cardIds) {
+        const cur = nextSrs[id];
+        if (!cur || cur.fsrs) continue;
+        const memory = fsrsMemoryFromHistory(cur);
+        if (memory) nextSrs[id] = { ...cur, fsrs: memory };
+      }
+      srs = nextSrs;
+    }
+
+    setState({
+      ...state,
+      srs,
+      decks: {
+        ...state.decks,
+        [d.id]: { ...d, scheduler },
+      },
+    });
+  };
+
+  const updateSettingsDeck = (patch: Partial<Deck>) => {
+    const d = state.decks[settingsDeckId];
+    if (!d) return;
+    setState({
+      ...state,
+      decks: {
+        ...state.decks,
+        [d.id]: { ...d, ...patch },
+      },
+    });
+  };
+
+  const parseSteps = (text: string): number[] | null => {
+    const parts = text.split(/[\s,]+/).filter(Boolean);
+    const steps = parts.map((p) => Number(p));
+    if (steps.some((n) => !Number.isFinite(n) || n <= 0)) return null;
+    return steps;
+  };
+
+  const onSaveSteps = (kind: 'learningSteps' | 'relearningSteps') => {
+    const draft = kind === 'learningSteps' ? learningStepsDraft : relearningStepsDraft;
+    const steps = parseSteps(draft);
+    if (!steps) {
+      alert('Steps must be positive numbers of minutes, e.g. "1 10".');
+      if (kind === 'learningSteps') setLearningStepsDraft(settingsLearningSteps.join(' '));
+      else setRelearningStepsDraft(settingsRelearningSteps.join(' '));
+      return;
+    }
+    updateSettingsDeck({ [kind]: steps });
+  };
+
+  const onSaveDailyLimit = (kind: 'newCardsPerDay' | 'maxReviewsPerDay') => {
+    const draft = kind === 'newCardsPerDay' ? newPerDayDraft : reviewsPerDayDraft;
+    const n = Number(draft.trim());
+    if (!draft.trim() || !Number.isInteger(n) || n < 0) {
+      alert('Daily limits must be whole numbers (0 or more).');
+      if (kind === 'newCardsPerDay') setNewPerDayDraft(String(settingsNewPerDay));
+      else setReviewsPerDayDraft(String(settingsReviewsPerDay));
+      return;
+    }
+    updateSettingsDeck({ [kind]: n });
+  };
+
+  const onSaveLeechThreshold = () => {
+    const n = Number(leechThresholdDraft.trim());
+    if (!leechThresholdDraft.trim() || !Number.isInteger(n) || n < 1) {
+      alert('Leech threshold must be a whole number of lapses (1 or more).');
+      setLeechThresholdDraft(String(settingsLeechThreshold));
+      return;
+    }
+    updateSettingsDeck({ leechThreshold: n });
   };
 
   const onExport = () => {
@@ -2796,9 +3735,22 @@ function ManageScreen(props: {
   };
 
   const deck = state.decks[deckId];
+  const settingsDeck = state.decks[settingsDeckId];
   const direction = deck?.direction ?? 'en-ja';
   const isJaEn = direction === 'ja-en';
   const lastCards = deck ? deck.cardIds.slice(-12).map((id) => state.cards[id]).filter(Boolean) : [];
+  const editQ = editQuery.trim().toLowerCase();
+  const editMatches =
+    deck && editQ
+      ? deck.cardIds
+          .map((id) => state.cards[id])
+          .filter(
+            (c) =>
+              !!c &&
+              (c.prompt.toLowerCase().includes(editQ) || c.answer.includes(editQ) || (c.kanji ?? '').includes(editQuery.trim())),
+          )
+          .slice(0, 12)
+      : [];
 
   return (
     <div className="container">
@@ -2898,7 +3850,170 @@ function ManageScreen(props: {
         ) : null}
       </div>
 
-      <div className="card">
+      <div style={{ marginTop: 12 }} className="card">
+        <div style={{ fontWeight: 900 }}>Deck settings</div>
+        <div style={{ marginTop: 12 }} className="row">
+          <div style={{ flex: 1, minWidth: 240 }}>
+            <label>Deck</label>
+            <select value={settingsDeckId} onChange={(e: ChangeEvent<HTMLSelectElement>) => setSettingsDeckId(e.target.value)}>
+              {deckList.map((d: Deck) => (
+                <option key={d.id} value={d.id}>
+                  {d.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div style={{ flex: 1, minWidth: 240 }}>
+            <label>Scheduler</label>
+            <select
+              value={settingsDeck?.scheduler ?? 'sm2'}
+              onChange={(e: ChangeEvent<HTMLSelectElement>) => onChangeScheduler(e.target.value as SchedulerKind)}
+              disabled={!settingsDeck}
+            >
+              <option value="sm2">SM-2 (fixed ease)</option>
+              <option value="fsrs">FSRS (stability / difficulty)</option>
+            </select>
+          </div>
+        </div>
+        <div className="small" style={{ marginTop: 8 }}>
+          Switching to FSRS seeds each reviewed card's memory state from its SM-2 interval, ease and lapses.
+        </div>
+        <div style={{ marginTop: 12 }} className="row">
+          <div style={{ flex: 1, minWidth: 240 }}>
+            <label>Learning steps (minutes)</label>
+            <input
+              value={learningStepsDraft}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => setLearningStepsDraft(e.target.value)}
+              onBlur={() => onSaveSteps('learningSteps')}
+              placeholder="1 10"
+              disabled={!settingsDeck}
+            />
+          </div>
+          <div style={{ flex: 1, minWidth: 240 }}>
+            <label>Relearning steps (minutes)</label>
+            <input
+              value={relearningStepsDraft}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => setRelearningStepsDraft(e.target.value)}
+              onBlur={() => onSaveSteps('relearningSteps')}
+              placeholder="10"
+              disabled={!settingsDeck}
+            />
+          </div>
+        </div>
+        <div className="small" style={{ marginTop: 8 }}>
+          New cards repeat each learning step before graduating; a missed review card goes through the relearning steps.
+          Leave a field empty to skip its steps. Steps up to 20 minutes come back in the same session.
+        </div>
+        <div style={{ marginTop: 12 }} className="row">
+          <div style={{ flex: 1, minWidth: 240 }}>
+            <label>{isConjugationDeck(state, settingsDeckId) ? 'New words / day (all forms)' : 'New cards / day'}</label>
+            <input
+              inputMode="numeric"
+              value={newPerDayDraft}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => setNewPerDayDraft(e.target.value)}
+              onBlur={() => onSaveDailyLimit('newCardsPerDay')}
+              disabled={!settingsDeck}
+            />
+          </div>
+          <div style={{ flex: 1, minWidth: 240 }}>
+            <label>Max reviews / day</label>
+            <input
+              inputMode="numeric"
+              value={reviewsPerDayDraft}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => setReviewsPerDayDraft(e.target.value)}
+              onBlur={() => onSaveDailyLimit('maxReviewsPerDay')}
+              disabled={!settingsDeck}
+            />
+          </div>
+        </div>
+        <div className="small" style={{ marginTop: 8 }}>
+          Limits reset at local midnight. Cards in learning steps are always shown.
+        </div>
+        <div style={{ marginTop: 12 }} className="row">
+          <div style={{ flex: 1, minWidth: 240 }}>
+            <label>Leech threshold (lapses)</label>
+            <input
+              inputMode="numeric"
+              value={leechThresholdDraft}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => setLeechThresholdDraft(e.target.value)}
+              onBlur={onSaveLeechThreshold}
+              disabled={!settingsDeck}
+            />
+          </div>
+          <div style={{ flex: 1, minWidth: 240 }}>
+            <label>Leech action</label>
+            <select
+              value={settingsDeck?.leechAction ?? 'suspend'}
+              onChange={(e: ChangeEvent<HTMLSelectElement>) => updateSettingsDeck({ leechAction: e.target.value as LeechAction })}
+              disabled={!settingsDeck}
+            >
+              <option value="suspend">Suspend and tag</option>
+              <option value="tag">Tag only</option>
+            </select>
+          </div>
+        </div>
+        <div style={{ marginTop: 12 }} className="row">
+          <label style={{ display: 'flex', gap: 8, alignItems: 'center', margin: 0 }}>
+            <input
+              type="checkbox"
+              checked={settingsDeck?.fuzz ?? true}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => updateSettingsDeck({ fuzz: e.target.checked })}
+              disabled={!settingsDeck}
+              style={{ width: 'auto' }}
+            />
+            Fuzz intervals
+          </label>
+          <label style={{ display: 'flex', gap: 8, alignItems: 'center', margin: 0 }}>
+            <input
+              type="checkbox"
+              checked={!!settingsDeck?.loadBalance}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => updateSettingsDeck({ loadBalance: e.target.checked })}
+              disabled={!settingsDeck}
+              style={{ width: 'auto' }}
+            />
+            Load balance
+          </label>
+          <label style={{ display: 'flex', gap: 8, alignItems: 'center', margin: 0 }}>
+            <input
+              type="checkbox"
+              checked={!!settingsDeck?.burySiblings}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => updateSettingsDeck({ burySiblings: e.target.checked })}
+              disabled={!settingsDeck}
+              style={{ width: 'auto' }}
+            />
+            Bury siblings
+          </label>
+          <label style={{ display: 'flex', gap: 8, alignItems: 'center', margin: 0 }}>
+            <input
+              type="checkbox"
+              checked={!!settingsDeck?.nearMissRetry}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => updateSettingsDeck({ nearMissRetry: e.target.checked })}
+              disabled={!settingsDeck}
+              style={{ width: 'auto' }}
+            />
+            Retry near misses
+          </label>
+          <label style={{ display: 'flex', gap: 8, alignItems: 'center', margin: 0 }}>
+            <input
+              type="checkbox"
+              checked={!!settingsDeck?.answerInKanji}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => updateSettingsDeck({ answerInKanji: e.target.checked })}
+              disabled={!settingsDeck || settingsDeck.direction === 'ja-en'}
+              style={{ width: 'auto' }}
+            />
+            Answer in kanji
+          </label>
+        </div>
+        <div className="small" style={{ marginTop: 8 }}>
+          Fuzz spreads due dates a few days either way so cards learned together don't all come back together. Load
+          balancing picks the day in that window with the fewest reviews already scheduled. Burying siblings hides other
+          forms of the same verb, and the same word in mirrored decks, until tomorrow once you answer one in Review. Retrying
+          near misses gives one more try when the only slip is a small kana, a dakuten or a long vowel. Answering in kanji
+          asks for the kanji form on cards that have one (typed with your IME); cards without one stay in kana.
+        </div>
+      </div>
+
+      <div style={{ marginTop: 12 }} className="card">
         <div style={{ fontWeight: 900 }}>Add Card</div>
         <div style={{ marginTop: 12 }} className="row">
           <div style={{ flex: 1, minWidth: 240 }}>
@@ -2949,6 +4064,34 @@ function ManageScreen(props: {
           </div>
         </div>
 
+        <div style={{ marginTop: 12 }}>
+          <label>Also accept (optional)</label>
+          <input
+            value={alternatives}
+            className={!isJaEn ? 'jpInput' : undefined}
+            onChange={(e: ChangeEvent<HTMLInputElement>) => setAlternatives(e.target.value)}
+            placeholder={isJaEn ? 'e.g. to possess; to carry' : 'e.g. おねがいします; 魚'}
+          />
+          <div className="small" style={{ marginTop: 6 }}>
+            Other answers graded as correct, separated by <b>;</b>
+          </div>
+        </div>
+
+        {!isJaEn && deckId && inferType(deckId) === 'sentence' ? (
+          <div style={{ marginTop: 12 }}>
+            <label>Answer pattern (optional)</label>
+            <input
+              value={answerPattern}
+              className="jpInput"
+              onChange={(e: ChangeEvent<HTMLInputElement>) => setAnswerPattern(e.target.value)}
+              placeholder="e.g. めにゅう(を)おねがいします"
+            />
+            <div className="small" style={{ marginTop: 6 }}>
+              Optional <b>(を)</b>, either <b>[です|だ]</b>, swappable <b>{'{あした}{とうきょうで}'}</b>
+            </div>
+          </div>
+        ) : null}
+
         <div style={{ marginTop: 12 }}>
           <label>Part of speech (optional)</label>
           <input
@@ -3016,6 +4159,11 @@ function ManageScreen(props: {
                 <div key={c.id} className="card" style={{ padding: 12 }}>
                   <div style={{ fontWeight: 900 }}>{c.prompt}</div>
                   <div style={{ marginTop: 6, fontWeight: 800 }}>{c.answer}</div>
+                  {c.alternatives?.length ? (
+                    <div className="small" style={{ marginTop: 6 }}>
+                      Also: {c.alternatives.join(' · ')}
+                    </div>
+                  ) : null}
                   {c.pos ? <div className="small" style={{ marginTop: 6 }}>{c.pos}</div> : null}
                   {c.kanji ? (
                     <div className="jpKanji" style={{ marginTop: 6 }}>
@@ -3036,6 +4184,54 @@ function ManageScreen(props: {
         ) : null}
       </div>
 
+      <div style={{ marginTop: 12 }} className="card">
+        <div style={{ fontWeight: 900 }}>Edit Cards</div>
+        <div className="small" style={{ marginTop: 6 }}>
+          Search the deck selected above to fix a card or add accepted alternatives.
+        </div>
+        <div style={{ marginTop: 10 }}>
+          <input
+            value={editQuery}
+            onChange={(e: ChangeEvent<HTMLInputElement>) => setEditQuery(e.target.value)}
+            placeholder="type English, kana, or kanji…"
+          />
+        </div>
+        {editMatches.length ? (
+          <div style={{ marginTop: 10 }} className="grid">
+            {editMatches.map((c) => (
+              <div key={c.id} className="card" style={{ padding: 12 }}>
+                <div style={{ fontWeight: 900 }}>{c.prompt}</div>
+                <div style={{ marginTop: 6, fontWeight: 800 }}>{c.answer}</div>
+                {c.alternatives?.length ? (
+                  <div className="small" style={{ marginTop: 6 }}>
+                    Also: {c.alternatives.join(' · ')}
+                  </div>
+                ) : null}
+                {editingCardId === c.id ? (
+                  <CardEditor
+                    card={c}
+                    direction={direction}
+                    onSave={(next) => {
+                      setState({ ...state, cards: { ...state.cards, [next.id]: next } });
+                      setEditingCardId(null);
+                    }}
+                    onCancel={() => setEditingCardId(null)}
+                  />
+                ) : (
+                  <div style={{ marginTop: 8 }} className="row">
+                    <button onClick={() => setEditingCardId(c.id)}>Edit</button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : editQuery.trim() ? (
+          <div className="small" style={{ marginTop: 8 }}>
+            No matching cards.
+          </div>
+        ) : null}
+      </div>
+
       <div style={{ marginTop: 12 }} className="card">
         <div style={{ fontWeight: 900 }}>Export / Import</div>
         <div className="small" style={{ marginTop: 6 }}>
@@ -3067,8 +4263,8 @@ function ManageScreen(props: {
     </div>
   );
 }
-function VocabBrowserScreen(props: { state: AppState; onBack: () => void }) {
-  const { state, onBack } = props;
+function VocabBrowserScreen(props: { state: AppState; setState: (s: AppState) => void; onBack: () => void }) {
+  const { state, setState, onBack } = props;
   const [q, setQ] = useState('');
   const [wkByKey, setWkByKey] = useState<Record<string, WkLookupState>>({});
 
@@ -3149,6 +4345,7 @@ function VocabBrowserScreen(props: { state: AppState; onBack: () => void }) {
         pos?: string;
         background?: string;
         examples?: ExampleSentence[];
+        cardIds: CardId[];
         statsEnJa: { reviews: number; correct: number };
         statsJaEn: { reviews: number; correct: number };
       }
@@ -3181,6 +4378,7 @@ function VocabBrowserScreen(props: { state: AppState; onBack: () => void }) {
             kanjiLooksLikeSentence && c.kanji
               ? dedupeExamples([...normalizedExamples, { ja: c.kanji }])
               : normalizedExamples,
+          cardIds: [],
           statsEnJa: { reviews: 0, correct: 0 },
           statsJaEn: { reviews: 0, correct: 0 },
         });
@@ -3189,6 +4387,7 @@ function VocabBrowserScreen(props: { state: AppState; onBack: () => void }) {
       const agg = byKey.get(key);
       if (!agg) continue;
 
+      agg.cardIds.push(c.id);
       if (!agg.kanji && c.kanji && !kanjiLooksLikeSentence) agg.kanji = c.kanji;
       if (!agg.pos && c.pos) agg.pos = c.pos;
       if (!agg.background && c.background) agg.background = c.background;
@@ -3300,6 +4499,9 @@ function VocabBrowserScreen(props: { state: AppState; onBack: () => void }) {
                   </a>
                 ) : null}
               </div>
+              <div className="row" style={{ marginTop: 8, gap: 8 }}>
+                <RotationControls state={state} setState={setState} cardIds={e.cardIds} />
+              </div>
 
               {wk.status === 'error' ? (
                 <div className="small" style={{ marginTop: 6 }}>
@@ -3370,3 +4572,242 @@ function VocabBrowserScreen(props: { state: AppState; onBack: () => void }) {
     </div>
   );
 }
+
+function CardEditor(props: { card: Card; direction: 'en-ja' | 'ja-en'; onSave: (card: Card) => void; onCancel: () => void }) {
+  const { card, direction, onSave, onCancel } = props;
+  const isJaEn = direction === 'ja-en';
+  const [prompt, setPrompt] = useState(card.prompt);
+  const [answer, setAnswer] = useState(card.answer);
+  const [pos, setPos] = useState(card.pos ?? '');
+  const [kanji, setKanji] = useState(card.kanji ?? '');
+  const [note, setNote] = useState(card.note ?? '');
+  const [background, setBackground] = useState(card.background ?? '');
+  const [alternatives, setAlternatives] = useState((card.alternatives ?? []).join('; '));
+  const [answerPattern, setAnswerPattern] = useState(card.answerPattern ?? '');
+  const showPattern = card.type === 'sentence' && !isJaEn;
+
+  const onSubmit = () => {
+    const p = isJaEn ? normalizeJapanese(prompt) : prompt.trim();
+    const a = isJaEn ? answer.trim() : normalizeJapanese(answer);
+    if (!p || !a) {
+      alert('Prompt and answer are required.');
+      return;
+    }
+    const pattern = showPattern ? answerPattern.trim() : '';
+    const patternError = pattern ? answerPatternError(pattern, a) : null;
+    if (patternError) {
+      alert(`Answer pattern: ${patternError}`);
+      return;
+    }
+    onSave({
+      ...card,
+      prompt: p,
+      answer: a,
+      pos: pos.trim() || undefined,
+      kanji: kanji.trim() || undefined,
+      note: note.trim() || undefined,
+      background: background.trim() || undefined,
+      alternatives: parseAlternatives(alternatives, !isJaEn),
+      answerPattern: pattern || undefined,
+    });
+  };
+
+  return (
+    <div style={{ marginTop: 10 }}>
+      <div className="row">
+        <div style={{ flex: 1, minWidth: 200 }}>
+          <label>{isJaEn ? 'Prompt (Japanese)' : 'Prompt (English)'}</label>
+          <input
+            value={prompt}
+            className={isJaEn ? 'jpInput' : undefined}
+            onChange={(e: ChangeEvent<HTMLInputElement>) =>
+              setPrompt(isJaEn ? toHiragana(e.target.value, { passRomaji: false, IMEMode: true }) : e.target.value)
+            }
+          />
+        </div>
+        <div style={{ flex: 1, minWidth: 200 }}>
+          <label>{isJaEn ? 'Answer (English meaning)' : 'Answer (kana)'}</label>
+          <input
+            value={answer}
+            className={!isJaEn ? 'jpInput' : undefined}
+            onChange={(e: ChangeEvent<HTMLInputElement>) =>
+              setAnswer(isJaEn ? e.target.value : toHiragana(e.target.value, { passRomaji: false, IMEMode: true }))
+            }
+          />
+        </div>
+      </div>
+      <div style={{ marginTop: 8 }}>
+        <label>Also accept (separated by ;)</label>
+        <input
+          value={alternatives}
+          className={!isJaEn ? 'jpInput' : undefined}
+          onChange={(e: ChangeEvent<HTMLInputElement>) => setAlternatives(e.target.value)}
+        />
+      </div>
+      {showPattern ? (
+        <div style={{ marginTop: 8 }}>
+          <label>Answer pattern</label>
+          <input
+            value={answerPattern}
+            className="jpInput"
+            onChange={(e: ChangeEvent<HTMLInputElement>) => setAnswerPattern(e.target.value)}
+          />
+          <div className="small" style={{ marginTop: 4 }}>
+            Optional <b>(を)</b>, either <b>[です|だ]</b>, swappable <b>{'{あした}{とうきょうで}'}</b>
+          </div>
+        </div>
+      ) : null}
+      <div style={{ marginTop: 8 }} className="row">
+        <div style={{ flex: 1, minWidth: 200 }}>
+          <label>Part of speech</label>
+          <input value={pos} onChange={(e: ChangeEvent<HTMLInputElement>) => setPos(e.target.value)} />
+        </div>
+        <div style={{ flex: 1, minWidth: 200 }}>
+          <label>Kanji</label>
+          <input value={kanji} className="jpInput" onChange={(e: ChangeEvent<HTMLInputElement>) => setKanji(e.target.value)} />
+        </div>
+      </div>
+      <div style={{ marginTop: 8 }}>
+        <label>Note</label>
+        <input value={note} onChange={(e: ChangeEvent<HTMLInputElement>) => setNote(e.target.value)} />
+      </div>
+      <div style={{ marginTop: 8 }}>
+        <label>Background</label>
+        <textarea rows={2} value={background} onChange={(e: ChangeEvent<HTMLTextAreaElement>) => setBackground(e.target.value)} />
+      </div>
+      <div style={{ marginTop: 8 }} className="row">
+        <button className="primary" onClick={onSubmit}>
+          Save
+        </button>
+        <button onClick={onCancel}>Cancel</button>
+      </div>
+    </div>
+  );
+}
+
+function LeechScreen(props: { state: AppState; setState: (s: AppState) => void; onBack: () => void }) {
+  const { state, setState, onBack } = props;
+  const [editingId, setEditingId] = useState<CardId | null>(null);
+  const [history, setHistory] = useState<Record<CardId, CardReviewHistory>>({});
+
+  useEffect(() => {
+    let live = true;
+    void loadReviewLog().then((entries) => {
+      if (live) setHistory(historyFromReviewLog(entries));
+    });
+    return () => {
+      live = false;
+    };
+  }, []);
+
+  const leeches = useMemo(() => {
+    const out: Card[] = [];
+    for (const c of Object.values(state.cards)) {
+      const lapses = state.srs[c.id]?.lapses ?? 0;
+      const threshold = state.decks[c.deckId]?.leechThreshold ?? DEFAULT_LEECH_THRESHOLD;
+      if (c.tags?.includes(LEECH_TAG) || lapses >= threshold) out.push(c);
+    }
+    out.sort((a, b) => (state.srs[b.id]?.lapses ?? 0) - (state.srs[a.id]?.lapses ?? 0) || a.prompt.localeCompare(b.prompt));
+    return out;
+  }, [state.cards, state.decks, state.srs]);
+
+  const onSaveCard = (card: Card) => {
+    setState({ ...state, cards: { ...state.cards, [card.id]: card } });
+    setEditingId(null);
+  };
+
+  const onUnsuspend = (cardId: CardId) => {
+    const cur = state.srs[cardId];
+    if (!cur) return;
+    setState({ ...state, srs: { ...state.srs, [cardId]: { ...cur, suspended: undefined } } });
+  };
+
+  const onResetCard = (card: Card) => {
+    const ok = confirm(`Reset progress for "${card.prompt}"? It will come back as a new card.`);
+    if (!ok) return;
+    const tags = (card.tags ?? []).filter((t) => t !== LEECH_TAG);
+    setState({
+      ...state,
+      cards: { ...state.cards, [card.id]: { ...card, tags: tags.length ? tags : undefined } },
+      srs: { ...state.srs, [card.id]: defaultSrs(card.id, nowMs()) },
+    });
+  };
+
+  return (
+    <div className="container">
+      <div className="header">
+        <div className="brand">
+          <div className="logo" />
+          <div>
+            <div style={{ fontWeight: 900, fontSize: 18 }}>Leeches</div>
+            <div className="small">Cards you keep failing. Fix the card, reset it, or bring it back into reviews.</div>
+          </div>
+        </div>
+        <div className="row">
+          <button onClick={onBack}>Back</button>
+        </div>
+      </div>
+
+      {leeches.length === 0 ? (
+        <div className="card">
+          <div className="small">No leeches right now.</div>
+        </div>
+      ) : null}
+
+      <div className="grid">
+        {leeches.map((c) => {
+          const srs = state.srs[c.id];
+          const deck = state.decks[c.deckId];
+          // Cards reviewed before the log existed fall back to the stored counters.
+          const logged = history[c.id];
+          const st = logged ?? state.stats?.[c.id] ?? { reviews: 0, correct: 0 };
+          const lapsedAt = logged?.lapsedAt.length ? logged.lapsedAt : srs?.lapsedAt ?? [];
+          return (
+            <div className="card" key={c.id}>
+              <div className="small">{deck?.name ?? 'Unknown deck'}</div>
+              <div style={{ fontWeight: 900, marginTop: 4 }}>{c.prompt}</div>
+              <div className="jpText" style={{ marginTop: 6, fontWeight: 800 }}>
+                {c.answer}
+              </div>
+              {c.kanji ? (
+                <div className="jpKanji" style={{ marginTop: 6 }}>
+                  {c.kanji}
+                </div>
+              ) : null}
+              <div className="small" style={{ marginTop: 8 }}>
+                Lapses: <b>{srs?.lapses ?? 0}</b> · Attempts: <b>{st.reviews}</b> · Correct: <b>{st.correct}</b>
+                {srs?.suspended ? <span> · Suspended</span> : null}
+              </div>
+              {lapsedAt.length ? (
+                <div className="small" style={{ marginTop: 4 }}>
+                  Lapsed on: {lapsedAt.map((ts) => new Date(ts).toLocaleDateString()).join(', ')}
+                </div>
+              ) : null}
+              {logged?.recent.length ? (
+                <div className="small" style={{ marginTop: 4 }}>
+                  Recent answers:{' '}
+                  {logged.recent.map((e) => `${e.typed.trim() || '—'} ${e.correct ? '✓' : '✗'}`).join(' · ')}
+                </div>
+              ) : null}
+
+              {editingId === c.id ? (
+                <CardEditor
+                  card={c}
+                  direction={deck?.direction ?? 'en-ja'}
+                  onSave={onSaveCard}
+                  onCancel={() => setEditingId(null)}
+                />
+              ) : (
+                <div className="row" style={{ marginTop: 10, gap: 8 }}>
+                  <button onClick={() => setEditingId(c.id)}>Edit</button>
+                  <button onClick={() => onResetCard(c)}>Reset</button>
+                  {srs?.suspended ? <button onClick={() => onUnsuspend(c.id)}>Unsuspend</button> : null}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { deconjugateVerb, matchKnownVerbs } from './deconjugate';
+import type { KnownVerb } from './deconjugate';
+
+const known: KnownVerb[] = [
+  { kana: 'たべる', kanji: '食べる', english: 'to eat', source: 'deck' },
+  { kana: 'かく', kanji: '書く', english: 'to write', source: 'deck' },
+  { kana: 'つくる', kanji: '作る', english: 'to make', source: 'deck' },
+  { kana: 'くる', kanji: '来る', english: 'to come', source: 'deck' },
+  { kana: 'べんきょうする', kanji: '勉強する', english: 'to study', source: 'wanikani' },
+  { kana: 'いく', kanji: '行く', english: 'to go', source: 'deck' },
+  { kana: 'ある', english: 'to exist', source: 'deck' },
+  { kana: 'くださる', kanji: '下さる', english: 'to give', source: 'deck' },
+];
+
+const best = (word: string) => matchKnownVerbs(deconjugateVerb(word), known)[0];
+
+describe('deconjugateVerb + matchKnownVerbs', () => {
+  it.each([
+    ['食べなかった', '食べる', 'ichidan', ['past_negative']],
+    ['食べさせられなかった', '食べる', 'ichidan', ['causative_passive', 'past_negative']],
+    ['書けなかった', '書く', 'godan', ['potential', 'past_negative']],
+    ['かいて', 'かく', 'godan', ['te']],
+    ['つくらなかった', 'つくる', 'godan', ['past_negative']],
+    ['作られる', '作る', 'godan', ['passive']],
+    ['こなかった', 'くる', 'irregular', ['past_negative']],
+    ['来なかった', '来る', 'irregular', ['past_negative']],
+    ['行って', '行く', 'godan', ['te']],
+    ['ない', 'ある', 'godan', ['negative']],
+    ['べんきょうしています', 'べんきょうする', 'irregular', ['progressive', 'polite_present']],
+    ['ください', 'くださる', 'honorific', ['imperative']],
+  ])('%s → %s', (word, base, cls, forms) => {
+    expect(best(word)).toMatchObject({ base, cls, forms });
+    expect(best(word)?.known).toBeDefined();
+  });
+
+  it('reads a dictionary form as itself', () => {
+    expect(best('つくる')).toMatchObject({ base: 'つくる', cls: 'godan', forms: [] });
+  });
+
+  it('keeps rule-only readings whose class agrees with classifyVerb when nothing is known', () => {
+    const matches = matchKnownVerbs(deconjugateVerb('のまなかった'), []);
+    expect(matches.some((m) => m.base === 'のむ' && m.cls === 'godan' && m.forms.join() === 'past_negative')).toBe(true);
+    expect(matches.every((m) => !m.known)).toBe(true);
+  });
+
+  it('returns nothing for empty input', () => {
+    expect(deconjugateVerb('  ')).toEqual([]);
+  });
+});
@@ -0,0 +1,172 @@
+import type { AppState } from './models';
+import { VERB_FORMS, classifyVerb, conjugateVerb, isKuruVerb } from './seed';
+import type { VerbClass, VerbForm } from './seed';
+
+export type DeconjugationClass = VerbClass | 'irregular';
+
+export type Deconjugation = {
+  base: string;
+  cls: DeconjugationClass;
+  // Innermost form first: 食べさせられなかった → ['causative_passive', 'past_negative'].
+  forms: VerbForm[];
+};
+
+export type KnownVerb = {
+  kana: string;
+  kanji?: string;
+  english: string;
+  source: 'deck' | 'wanikani';
+};
+
+export type DeconjugationMatch = Deconjugation & { known?: KnownVerb };
+
+type InverseRule = {
+  from: string;
+  to: string;
+  form: VerbForm;
+  cls: DeconjugationClass;
+  // Whole-word irregulars (する, 来る, ない → ある) may match with nothing in front of them.
+  standalone: boolean;
+};
+
+const GODAN_ENDINGS = ['う', 'つ', 'る', 'む', 'ぶ', 'ぬ', 'く', 'ぐ', 'す'];
+
+// Forms whose result is itself an ichidan verb that can be conjugated again (書かせる → 書かせなかった).
+const CHAINABLE_FORMS: VerbForm[] = ['progressive', 'potential', 'passive', 'causative', 'causative_passive'];
+const MAX_CHAIN = 3;
+
+// Every rule is read back out of conjugateVerb with stand-in bases, so the two cannot drift apart.
+const buildInverseRules = (): InverseRule[] => {
+  const rules: InverseRule[] = [];
+  const add = (rule: InverseRule) => {
+    if (!rule.from || rule.from === rule.to) return;
+    if (rules.some((r) => r.from === rule.from && r.to === rule.to && r.form === rule.form && r.cls === rule.cls)) return;
+    rules.push(rule);
+  };
+
+  for (const form of VERB_FORMS) {
+    if (form === 'dictionary') continue;
+
+    for (const end of GODAN_ENDINGS) {
+      add({ from: conjugateVerb(`か${end}`, `か${end}`, form, 'godan').slice(1), to: end, form, cls: 'godan', standalone: false });
+    }
+    add({ from: conjugateVerb('たべる', 'たべる', form, 'ichidan').slice(2), to: 'る', form, cls: 'ichidan', standalone: false });
+    add({ from: conjugateVerb('なさる', 'なさる', form, 'honorific').slice(2), to: 'る', form, cls: 'honorific', standalone: false });
+
+    for (const [kana, kanji] of [['する'], ['くる', '来る']]) {
+      const out = conjugateVerb(kana, kana, form, classifyVerb(kana));
+      add({ from: out, to: kana, form, cls: 'irregular', standalone: true });
+      if (kanji) add({ from: conjugateVerb(kanji, kana, form, classifyVerb(kana)), to: kanji, form, cls: 'irregular', standalone: true });
+    }
+
+    // いく and ある are godan with a few irregular outputs; only those outputs need their own rule.
+    for (const [kana, kanji] of [['いく', '行く'], ['ある']]) {
+      const out = conjugateVerb(kana, kana, form, 'godan');
+      const regular = `${kana.slice(0, -1)}${conjugateVerb(`か${kana.slice(-1)}`, `か${kana.slice(-1)}`, form, 'godan').slice(1)}`;
+      if (out === regular) continue;
+      add({ from: out, to: kana, form, cls: 'godan', standalone: true });
+      if (kanji) add({ from: conjugateVerb(kanji, kana, form, 'godan'), to: kanji, form, cls: 'godan', standalone: true });
+    }
+  }
+
+  return rules;
+};
+
+let inverseRules: InverseRule[] | null = null;
+
+const normalizeLookup = (word: string): string => word.replace(/[\s。、，,.！!？?「」]/g, '');
+
+// All (base, class, form chain) readings of `word`; most are not real verbs until checked with matchKnownVerbs.
+export const deconjugateVerb = (word: string): Deconjugation[] => {
+  const surface = normalizeLookup(word);
+  if (!surface) return [];
+  inverseRules ??= buildInverseRules();
+  const rules = inverseRules;
+
+  const out = new Map<string, Deconjugation>();
+  const put = (d: Deconjugation) => {
+    const key = `${d.base}||${d.cls}||${d.forms.join('>')}`;
+    if (!out.has(key)) out.set(key, d);
+  };
+
+  if (/[うつるむぶぬくぐす]$/.test(surface)) {
+    const irregular = surface.endsWith('する') || isKuruVerb(surface, surface);
+    put({ base: surface, cls: irregular ? 'irregular' : classifyVerb(surface), forms: [] });
+  }
+
+  const walk = (text: string, outer: VerbForm[], derivedOnly: boolean) => {
+    for (const rule of rules) {
+      if (derivedOnly && !CHAINABLE_FORMS.includes(rule.form)) continue;
+      if (!text.endsWith(rule.from)) continue;
+      const stem = text.slice(0, text.length - rule.from.length);
+      if (!stem && !rule.standalone) continue;
+
+      const base = `${stem}${rule.to}`;
+      const forms = [rule.form, ...outer];
+      put({ base, cls: rule.cls, forms });
+
+      // A derived verb (食べさせられる) conjugates as ichidan, so only an ichidan rule can sit on top of one.
+      if (rule.cls === 'ichidan' && forms.length < MAX_CHAIN) walk(base, forms, true);
+    }
+  };
+  walk(surface, [], false);
+
+  return [...out.values()];
+};
+
+const knownClass = (v: KnownVerb): DeconjugationClass =>
+  v.kana.endsWith('する') || isKuruVerb(v.kana, v.kanji) ? 'irregular' : classifyVerb(v.kana, v.kanji);
+
+// Verb bases the user already studies: generated conjugation cards and verb vocab. WaniKani imports are tagged by their source line.
+export const knownVerbsFromState = (state: AppState): KnownVerb[] => {
+  const byKey = new Map<string, KnownVerb>();
+  for (const c of Object.values(state.cards)) {
+    const deck = state.decks[c.deckId];
+    if (!deck) continue;
+
+    let kana = '';
+    let kanji: string | undefined;
+    let english = '';
+    if (c.type === 'verb' && (c.verbBaseKana ?? '').trim()) {
+      kana = (c.verbBaseKana ?? '').trim();
+      kanji = (c.verbBaseKanji ?? '').trim() || undefined;
+      english = c.prompt.trim();
+    } else if (c.type === 'vocab' && /\bverb\b/.test((c.pos ?? '').toLowerCase())) {
+      const jaEn = deck.direction === 'ja-en';
+      kana = (jaEn ? c.prompt : c.answer).trim();
+      kanji = (c.kanji ?? '').trim() || undefined;
+      english = (jaEn ? c.answer : c.prompt).trim();
+    }
+    if (!kana || !/[うつるむぶぬくぐす]$/.test(kana)) continue;
+
+    const key = `${kanji ?? ''}||${kana}`;
+    const wanikani = (c.background ?? '').includes('WaniKani') || deck.name.includes('WaniKani');
+    const prev = byKey.get(key);
+    if (prev && (prev.source === 'wanikani' || !wanikani)) continue;
+    byKey.set(key, { kana, kanji, english: prev?.english || english, source: wanikani ? 'wanikani' : 'deck' });
+  }
+  return [...byKey.values()];
+};
+
+// Attaches the known verb each candidate resolves to (same spelling and same class), known matches first.
+// Unknown candidates are kept only when their class agrees with classifyVerb (drops e.g. ichidan readings of かえらない).
+export const matchKnownVerbs = (candidates: Deconjugation[], known: KnownVerb[]): DeconjugationMatch[] => {
+  const bySpelling = new Map<string, KnownVerb[]>();
+  for (const v of known) {
+    for (const spelling of [v.kana, v.kanji]) {
+      if (!spelling) continue;
+      bySpelling.set(spelling, [...(bySpelling.get(spelling) ?? []), v]);
+    }
+  }
+
+  const matches = candidates.flatMap((d): DeconjugationMatch[] => {
+    const hit = (bySpelling.get(d.base) ?? []).find((v) => knownClass(v) === d.cls);
+    if (hit) return [{ ...d, known: hit }];
+    return d.cls === 'irregular' || classifyVerb(d.base) === d.cls ? [d] : [];
+  });
+
+  return matches
+    .map((m, i) => ({ m, i }))
+    .sort((a, b) => Number(!!b.m.known) - Number(!!a.m.known) || a.m.forms.length - b.m.forms.length || a.i - b.i)
+    .map(({ m }) => m);
+};
@@ -0,0 +1,57 @@
+export type DiffOp =
+  | { kind: 'equal'; expected: string; got: string }
+  | { kind: 'replace'; expected: string; got: string }
+  | { kind: 'delete'; expected: string }
+  | { kind: 'insert'; got: string };
+
+const SMALL_KANA = new Set([...'ゃゅょぁぃぅぇぉゎャュョァィゥェォヮ']);
+
+// ゃ/ゅ/ょ and friends belong to the kana before them (きょ is one mora); っ and ー stand alone.
+export const splitMora = (s: string): string[] => {
+  const out: string[] = [];
+  for (const ch of s) {
+    if (SMALL_KANA.has(ch) && out.length) out[out.length - 1] += ch;
+    else out.push(ch);
+  }
+  return out;
+};
+
+export const splitWords = (s: string): string[] => s.split(' ').filter(Boolean);
+
+export const diffTokens = (expected: string[], got: string[]): DiffOp[] => {
+  const n = expected.length;
+  const m = got.length;
+  const cost: number[][] = [];
+  for (let i = 0; i <= n; i += 1) cost.push(Array.from({ length: m + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)));
+
+  for (let i = 1; i <= n; i += 1) {
+    for (let j = 1; j <= m; j += 1) {
+      const sub = cost[i - 1][j - 1] + (expected[i - 1] === got[j - 1] ? 0 : 1);
+      cost[i][j] = Math.min(sub, cost[i - 1][j] + 1, cost[i][j - 1] + 1);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && cost[i][j] === cost[i - 1][j - 1] + (expected[i - 1] === got[j - 1] ? 0 : 1)) {
+      const same = expected[i - 1] === got[j - 1];
+      ops.push({ kind: same ? 'equal' : 'replace', expected: expected[i - 1], got: got[j - 1] });
+      i -= 1;
+      j -= 1;
+    } else if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+      ops.push({ kind: 'delete', expected: expected[i - 1] });
+      i -= 1;
+    } else {
+      ops.push({ kind: 'insert', got: got[j - 1] });
+      j -= 1;
+    }
+  }
+  return ops.reverse();
+};
+
+export const diffCost = (ops: DiffOp[]): number => ops.filter((op) => op.kind !== 'equal').length;
+
+export const diffAnswer = (expected: string, got: string, mode: 'kana' | 'english'): DiffOp[] =>
+  mode === 'kana' ? diffTokens(splitMora(expected), splitMora(got)) : diffTokens(splitWords(expected), splitWords(got));
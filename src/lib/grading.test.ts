@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { answerPatternError, classifyNearMiss, expandAnswerPattern, gradeEnglish, scoreSentence, sentenceScoreGrade } from './grading';
+
+describe('gradeEnglish', () => {
+  it.each([
+    ['to eat', 'to eat', 'correct'],
+    ['eat', 'to eat', 'correct'],
+    ['Eat!', 'to eat', 'correct'],
+    ['drink', 'to eat; to drink', 'correct'],
+    ['delicious', 'tasty, delicious', 'correct'],
+    ['cat', 'car', 'incorrect'],
+    ['resturant', 'restaurant', 'close'],
+    ['libary', 'library', 'close'],
+    ['banana', 'library', 'incorrect'],
+    ['', 'library', 'incorrect'],
+  ])('%j against %j is %s', (user, expected, verdict) => {
+    expect(gradeEnglish(user, expected).verdict).toBe(verdict);
+  });
+
+  it('reports the variant a close answer was aiming for', () => {
+    expect(gradeEnglish('teh station', 'the station; station')).toEqual({ verdict: 'close', closest: 'the station' });
+  });
+});
+
+describe('classifyNearMiss', () => {
+  it.each([
+    ['きて', 'きって', 'small_tsu'],
+    ['きつて', 'きって', 'small_tsu'],
+    ['がっこ', 'がこ', 'small_tsu'],
+    ['きよう', 'きょう', 'small_kana'],
+    ['はん', 'ばん', 'dakuten'],
+    ['ぱん', 'ばん', 'dakuten'],
+    ['とうきょ', 'とうきょう', 'long_vowel'],
+    ['こひい', 'こうひい', 'long_vowel'],
+    ['かこう', 'がっこう', 'mixed'],
+    ['かつこ', 'がっこう', 'mixed'],
+  ])('%s for %s is %s', (user, expected, kind) => {
+    expect(classifyNearMiss(user, expected)).toBe(kind);
+  });
+
+  it.each([
+    ['ねこ', 'ねこ'],
+    ['いぬ', 'ねこ'],
+    ['', 'ねこ'],
+    ['あい', 'あつい'],
+    ['まて', 'まつて'],
+  ])('%j for %s is not a near miss', (user, expected) => {
+    expect(classifyNearMiss(user, expected)).toBeNull();
+  });
+});
+
+describe('expandAnswerPattern', () => {
+  const variants = (pattern: string) => {
+    const result = expandAnswerPattern(pattern);
+    return result.ok ? [...result.variants].sort() : result.error;
+  };
+
+  it.each([
+    ['ねこがすき', ['ねこがすき']],
+    ['(わたしは)ねこがすき', ['ねこがすき', 'わたしはねこがすき']],
+    ['ねこ[が|は]すき', ['ねこがすき', 'ねこはすき']],
+    ['{あしたは}{とうきょうに}いく', ['あしたはとうきょうにいく', 'とうきょうにあしたはいく']],
+    ['(きのう)[みせ|すーぱー]でかった', ['きのうすーぱーでかった', 'きのうみせでかった', 'すーぱーでかった', 'みせでかった']],
+    ['ね (こ)', ['ね', 'ねこ']],
+  ])('%s', (pattern, expected) => {
+    expect(variants(pattern)).toEqual([...expected].sort());
+  });
+
+  it.each([
+    ['(ねこ', 'Missing )'],
+    ['ねこ]', 'Unexpected ]'],
+    ['()', 'Pattern is empty.'],
+    ['{a}{b}{c}{d}{e}', 'At most 4'],
+    ['[a|b][a|b][a|b][a|b][a|b][a|b][a|b][a|b][a|b]', 'more than 256'],
+  ])('rejects %s', (pattern, error) => {
+    expect(variants(pattern)).toContain(error);
+  });
+
+  it('requires the pattern to produce the card answer', () => {
+    expect(answerPatternError('(わたしは)ねこがすき', 'わたしはねこがすき')).toBeNull();
+    expect(answerPatternError('(わたしは)ねこがすき', 'いぬがすき')).toContain('does not produce');
+  });
+});
+
+describe('scoreSentence', () => {
+  const expected = 'めにゅうをおねがいします';
+  const background = 'めにゅう = menu\nおねがいします = please';
+
+  it('marks which segments were wrong', () => {
+    const { segments } = scoreSentence('めにゅうがおねがいします', expected, background);
+    expect(segments.map((s) => [s.text, s.particle, s.correct])).toEqual([
+      ['めにゅう', false, true],
+      ['を', true, false],
+      ['おねがいします', false, true],
+    ]);
+  });
+
+  it('weights segments by mora, so one wrong particle still passes as Hard', () => {
+    const { score } = scoreSentence('めにゅうがおねがいします', expected, background);
+    expect(score).toBeCloseTo(10 / 11);
+    expect(sentenceScoreGrade(score)).toBe('hard');
+  });
+
+  it('grades a wrong particle better than a blank or mostly wrong answer', () => {
+    const particle = scoreSentence('めにゅうがおねがいします', expected, background).score;
+    const blank = scoreSentence('', expected, background).score;
+    const wrongWord = scoreSentence('みずをください', expected, background).score;
+    expect(particle).toBeGreaterThan(wrongWord);
+    expect(wrongWord).toBeGreaterThanOrEqual(blank);
+    expect(blank).toBe(0);
+    expect(sentenceScoreGrade(blank)).toBe('again');
+    expect(sentenceScoreGrade(wrongWord)).toBe('again');
+  });
+});
@@ -1,4 +1,6 @@
-import { toHiragana, toKatakana } from 'wanakana';
+import { toHiragana, toKatakana, toRomaji } from 'wanakana';
+import type { ReviewGrade } from './models';
+import { diffTokens, splitMora } from './diff';
 
 export const normalizeJapanese = (s: string): string => {
   const hira = toHiragana(s, { passRomaji: false });
@@ -16,6 +18,13 @@ export const normalizeKatakana = (s: string): string => {
     .replace(/[。．\.、，,！!？?「」『』（）\(\)\[\]【】]/g, '');
 };
 
+// Kanji answers are compared as typed: only spacing and punctuation are ignored, no kana conversion.
+export const normalizeSurface = (s: string): string =>
+  s
+    .trim()
+    .replace(/[\s　]+/g, '')
+    .replace(/[。．\.、，,！!？?「」『』（）\(\)\[\]【】]/g, '');
+
 export const isCorrect = (user: string, expected: string): boolean => {
   const u = normalizeJapanese(user);
   const e = normalizeJapanese(expected);
@@ -24,6 +33,290 @@ export const isCorrect = (user: string, expected: string): boolean => {
   return false;
 };
 
+const KANJI_RE = /[\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff々〆ヶ]/;
+
+export const hasKanji = (s: string): boolean => KANJI_RE.test(s);
+
+const escapeRegExp = (s: string): string => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export type FuriganaSegment = { text: string; reading?: string };
+
+// Splits e.g. 食べ物 / たべもの into 食(た) べ 物(もの). Null when the kana around the kanji doesn't line up.
+export const alignFurigana = (kanji: string, kana: string): FuriganaSegment[] | null => {
+  const k = normalizeJapanese(kanji);
+  const r = normalizeJapanese(kana);
+  if (!k || !r || !hasKanji(k)) return null;
+
+  const runs: { text: string; isKanji: boolean }[] = [];
+  for (const ch of k) {
+    const isKanji = hasKanji(ch);
+    const last = runs[runs.length - 1];
+    if (last && last.isKanji === isKanji) last.text += ch;
+    else runs.push({ text: ch, isKanji });
+  }
+
+  const pattern = runs.map((run) => (run.isKanji ? '(.+?)' : escapeRegExp(run.text))).join('');
+  const m = new RegExp(`^${pattern}$`).exec(r);
+  if (!m) return null;
+
+  let group = 1;
+  return runs.map((run) => (run.isKanji ? { text: run.text, reading: m[group++] } : { text: run.text }));
+};
+
+export type AcceptedJapanese = { label: string; text: string; reading?: string };
+
+// Accepts the kana, the kanji spelling, or any mix where each kanji run is written either way.
+export const matchJapanese = (user: string, accepted: AcceptedJapanese[]): AcceptedJapanese | undefined => {
+  const u = normalizeJapanese(user);
+  if (!u) return undefined;
+
+  for (const a of accepted) {
+    if (!hasKanji(a.text)) {
+      if (isCorrect(user, a.text)) return a;
+      continue;
+    }
+    if (u === normalizeJapanese(a.text)) return a;
+    if (!a.reading) continue;
+
+    const segments = alignFurigana(a.text, a.reading);
+    if (!segments) continue;
+    const pattern = segments
+      .map((seg) => (seg.reading ? `(?:${escapeRegExp(seg.text)}|${escapeRegExp(seg.reading)})` : escapeRegExp(seg.text)))
+      .join('');
+    if (new RegExp(`^${pattern}$`).test(u)) return { ...a, label: `${a.label} / kana mix` };
+  }
+  return undefined;
+};
+
+export type NearMissKind = 'small_tsu' | 'small_kana' | 'dakuten' | 'long_vowel' | 'mixed';
+
+export const NEAR_MISS_HINTS: Record<NearMissKind, string> = {
+  small_tsu: 'Check the small っ (doubled consonant).',
+  small_kana: 'Check small kana such as ゃ / ゅ / ょ.',
+  dakuten: 'Check the dakuten / handakuten (は vs ば vs ぱ).',
+  long_vowel: 'Check the long vowel (ー, おう vs おお, a missing う or い).',
+  mixed: 'Very close: check small kana, dakuten and long vowels.',
+};
+
+const SMALL_TO_LARGE: Record<string, string> = { ゃ: 'や', ゅ: 'ゆ', ょ: 'よ', ぁ: 'あ', ぃ: 'い', ぅ: 'う', ぇ: 'え', ぉ: 'お', ゎ: 'わ' };
+
+// っ written full size (きつて for きって), and っ left out or added (きて for きって).
+const foldSmallTsu = (s: string) => s.replace(/っ/g, 'つ');
+const dropSmallTsu = (s: string) => s.replace(/っ/g, '');
+const foldSmallKana = (s: string) => s.replace(/[ゃゅょぁぃぅぇぉゎ]/g, (ch) => SMALL_TO_LARGE[ch] ?? ch);
+const foldDakuten = (s: string) => s.normalize('NFD').replace(/[\u3099\u309a]/g, '').normalize('NFC');
+
+// Drops ー and vowel kana that only lengthen the previous mora (こう → こ, せい → せ, かあ → か).
+const foldLongVowels = (s: string): string => {
+  let out = '';
+  let prevVowel = '';
+  for (const ch of s) {
+    if (ch === 'ー') continue;
+    const lengthens =
+      (ch === 'あ' && prevVowel === 'a') ||
+      (ch === 'い' && (prevVowel === 'i' || prevVowel === 'e')) ||
+      (ch === 'う' && (prevVowel === 'u' || prevVowel === 'o')) ||
+      (ch === 'え' && prevVowel === 'e') ||
+      (ch === 'お' && prevVowel === 'o');
+    if (lengthens) continue;
+    out += ch;
+    const romaji = toRomaji(ch);
+    prevVowel = /[aiueo]$/.test(romaji) ? romaji.slice(-1) : SMALL_TO_LARGE[ch] ? prevVowel : '';
+  }
+  return out;
+};
+
+const NEAR_MISS_FOLDS: [Exclude<NearMissKind, 'mixed'>, (s: string) => string][] = [
+  ['small_tsu', foldSmallTsu],
+  ['small_tsu', dropSmallTsu],
+  ['small_kana', foldSmallKana],
+  ['dakuten', foldDakuten],
+  ['long_vowel', foldLongVowels],
+];
+
+// Classifies a wrong kana answer whose only mistakes are small kana, dakuten or vowel length.
+export const classifyNearMiss = (user: string, expected: string): NearMissKind | null => {
+  const u = normalizeJapanese(user);
+  const e = normalizeJapanese(expected);
+  if (!u || !e || u === e) return null;
+
+  for (const [kind, fold] of NEAR_MISS_FOLDS) {
+    if (fold(u) === fold(e)) return kind;
+  }
+  const foldAll = (s: string, tsu: (s: string) => string) =>
+    NEAR_MISS_FOLDS.reduce((acc, [kind, fold]) => (kind === 'small_tsu' ? acc : fold(acc)), tsu(s));
+  return [foldSmallTsu, dropSmallTsu].some((tsu) => foldAll(u, tsu) === foldAll(e, tsu)) ? 'mixed' : null;
+};
+
+const SENTENCE_PARTICLES = new Set(['は', 'が', 'を', 'に', 'で', 'へ', 'と', 'も', 'の', 'や', 'か', 'ね', 'よ', 'から', 'まで', 'より']);
+
+export type SentenceSegment = { text: string; particle: boolean; correct: boolean };
+export type SentenceScore = { segments: SentenceSegment[]; score: number };
+
+// Sentence cards list their pieces as "word = meaning" lines plus a "Structure:" line; those are the segment candidates.
+const sentenceSegmentKeys = (background: string): string[] => {
+  const keys = new Set<string>();
+  for (const line of background.split('\n')) {
+    const word = line.match(/^\s*([^=\s][^=]*?)\s*=/)?.[1];
+    if (word) keys.add(normalizeJapanese(word));
+    const structure = line.match(/^\s*Structure:\s*(.+)$/)?.[1];
+    if (structure) {
+      for (const part of structure.split(/[\s+]+/)) {
+        if (!/[[\]]/.test(part)) keys.add(normalizeJapanese(part));
+      }
+    }
+  }
+  for (const p of SENTENCE_PARTICLES) keys.add(p);
+  keys.delete('');
+  return [...keys].sort((a, b) => b.length - a.length);
+};
+
+export const segmentSentence = (answer: string, background = ''): Array<{ text: string; particle: boolean }> => {
+  const text = normalizeJapanese(answer);
+  const keys = sentenceSegmentKeys(background);
+  const memo = new Map<number, string[] | null>();
+  const cover = (at: number): string[] | null => {
+    if (at === text.length) return [];
+    if (memo.has(at)) return memo.get(at) ?? null;
+    let found: string[] | null = null;
+    for (const key of keys) {
+      if (!text.startsWith(key, at)) continue;
+      const rest = cover(at + key.length);
+      if (rest) {
+        found = [key, ...rest];
+        break;
+      }
+    }
+    memo.set(at, found);
+    return found;
+  };
+  // Particles alone can chop ordinary words (あり|が|とう), so require at least one breakdown word in the cover.
+  const parts = cover(0);
+  if (!parts || parts.every((p) => SENTENCE_PARTICLES.has(p))) return text ? [{ text, particle: false }] : [];
+  return parts.map((p) => ({ text: p, particle: SENTENCE_PARTICLES.has(p) }));
+};
+
+export const scoreSentence = (user: string, expected: string, background = ''): SentenceScore => {
+  const parts = segmentSentence(expected, background);
+  const owner: number[] = parts.flatMap((p, i) => splitMora(p.text).map(() => i));
+  const ok = parts.map(() => true);
+  let at = 0;
+  for (const op of diffTokens(parts.flatMap((p) => splitMora(p.text)), splitMora(normalizeJapanese(user)))) {
+    if (op.kind === 'insert') {
+      ok[owner[Math.min(at, owner.length - 1)]] = false;
+      continue;
+    }
+    if (op.kind !== 'equal') ok[owner[at]] = false;
+    at += 1;
+  }
+  const segments = parts.map((p, i) => ({ ...p, correct: ok[i] }));
+  // Weighted by mora, so one wrong particle costs a mora, not a third of a short sentence.
+  const right = owner.filter((i) => ok[i]).length;
+  return { segments, score: owner.length ? right / owner.length : 0 };
+};
+
+// A mostly-right sentence still passes, as Hard; anything weaker is a lapse.
+export const SENTENCE_PASS_SCORE = 0.75;
+
+export const sentenceScoreGrade = (score: number): ReviewGrade => (score >= SENTENCE_PASS_SCORE ? 'hard' : 'again');
+
+// Answer patterns for sentence cards: (optional), [either|or], and adjacent {blocks}{that} may swap order.
+type PatternNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'optional'; body: PatternNode[] }
+  | { kind: 'choice'; options: PatternNode[][] }
+  | { kind: 'blocks'; blocks: PatternNode[][] };
+
+export type AnswerPatternResult = { ok: true; variants: string[] } | { ok: false; error: string };
+
+const MAX_PATTERN_VARIANTS = 256;
+const MAX_PATTERN_BLOCKS = 4;
+
+const CLOSERS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+
+const parseAnswerPattern = (pattern: string): PatternNode[] => {
+  const chars = [...pattern];
+  let i = 0;
+
+  const parseSeq = (stops: string): PatternNode[] => {
+    const nodes: PatternNode[] = [];
+    while (i < chars.length && !stops.includes(chars[i])) {
+      const ch = chars[i];
+      if (ch === '(' || ch === '[' || ch === '{') {
+        i += 1;
+        const options = [parseSeq(ch === '[' ? ']|' : CLOSERS[ch])];
+        while (ch === '[' && chars[i] === '|') {
+          i += 1;
+          options.push(parseSeq(']|'));
+        }
+        if (chars[i] !== CLOSERS[ch]) throw new Error(`Missing ${CLOSERS[ch]} for the ${ch} opened earlier.`);
+        i += 1;
+
+        const last = nodes[nodes.length - 1];
+        if (ch === '(') nodes.push({ kind: 'optional', body: options[0] });
+        else if (ch === '[') nodes.push({ kind: 'choice', options });
+        else if (last?.kind === 'blocks') last.blocks.push(options[0]);
+        else nodes.push({ kind: 'blocks', blocks: [options[0]] });
+        continue;
+      }
+      if (')]}|'.includes(ch)) throw new Error(`Unexpected ${ch} at position ${i + 1}.`);
+      nodes.push({ kind: 'text', text: ch });
+      i += 1;
+    }
+    return nodes;
+  };
+
+  const nodes = parseSeq('');
+  if (i < chars.length) throw new Error(`Unexpected ${chars[i]} at position ${i + 1}.`);
+  return nodes;
+};
+
+const permutations = <T>(items: T[]): T[][] =>
+  items.length <= 1 ? [items] : items.flatMap((item, k) => permutations([...items.slice(0, k), ...items.slice(k + 1)]).map((rest) => [item, ...rest]));
+
+const expandNodes = (nodes: PatternNode[]): string[] => {
+  let out = [''];
+  for (const node of nodes) {
+    if (node.kind === 'blocks' && node.blocks.length > MAX_PATTERN_BLOCKS) {
+      throw new Error(`At most ${MAX_PATTERN_BLOCKS} interchangeable {blocks} in a row.`);
+    }
+    const parts =
+      node.kind === 'text'
+        ? [node.text]
+        : node.kind === 'optional'
+          ? ['', ...expandNodes(node.body)]
+          : node.kind === 'choice'
+            ? node.options.flatMap(expandNodes)
+            : permutations(node.blocks).flatMap((order) => expandNodes(order.flat()));
+    out = out.flatMap((prefix) => parts.map((p) => prefix + p));
+    if (out.length > MAX_PATTERN_VARIANTS) throw new Error(`Pattern allows more than ${MAX_PATTERN_VARIANTS} variants.`);
+  }
+  return out;
+};
+
+export const expandAnswerPattern = (pattern: string): AnswerPatternResult => {
+  try {
+    const variants = [...new Set(expandNodes(parseAnswerPattern(pattern)).map(normalizeJapanese))].filter(Boolean);
+    return variants.length ? { ok: true, variants } : { ok: false, error: 'Pattern is empty.' };
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+};
+
+// The pattern must parse and must describe the card's own answer among its variants.
+export const answerPatternError = (pattern: string, answer: string): string | null => {
+  const result = expandAnswerPattern(pattern);
+  if (!result.ok) return result.error;
+  if (!result.variants.includes(normalizeJapanese(answer))) return `Pattern does not produce the answer ${answer}.`;
+  return null;
+};
+
+export const matchAnswerPattern = (user: string, pattern: string): string | undefined => {
+  const result = expandAnswerPattern(pattern);
+  const u = normalizeJapanese(user);
+  return result.ok ? result.variants.find((v) => v === u) : undefined;
+};
+
 export const normalizeEnglish = (s: string): string => {
   return s
     .trim()
@@ -34,7 +327,7 @@ export const normalizeEnglish = (s: string): string => {
     .trim();
 };
 
-const englishAcceptableAnswers = (expected: string): string[] => {
+export const englishAcceptableAnswers = (expected: string): string[] => {
   const raw = expected.trim();
   const pieces = raw
     .split(';')
@@ -89,3 +382,47 @@ export const isCorrectEnglish = (user: string, expected: string): boolean => {
   if (u.split(' ').length < 2) return false;
   return ok.some((variant) => containsWordPhrase(variant, u));
 };
+
+export const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i += 1) {
+    const cur = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + cost);
+    }
+    prev = cur;
+  }
+  return prev[b.length];
+};
+
+// Short words get no slack: "cat" vs "car" is a different word, not a typo.
+const allowedTypos = (length: number): number => {
+  if (length <= 3) return 0;
+  if (length <= 5) return 1;
+  if (length <= 10) return 2;
+  return 3;
+};
+
+export type EnglishVerdict = 'correct' | 'close' | 'incorrect';
+
+export const gradeEnglish = (user: string, expected: string): { verdict: EnglishVerdict; closest?: string } => {
+  if (isCorrectEnglish(user, expected)) return { verdict: 'correct' };
+  const u = normalizeEnglish(user);
+  if (!u) return { verdict: 'incorrect' };
+
+  let closest: string | undefined;
+  let best = Number.POSITIVE_INFINITY;
+  for (const variant of englishAcceptableAnswers(expected)) {
+    const d = levenshtein(u, variant);
+    if (d <= allowedTypos(variant.length) && d < best) {
+      best = d;
+      closest = variant;
+    }
+  }
+  return closest ? { verdict: 'close', closest } : { verdict: 'incorrect' };
+};
@@ -1,7 +1,13 @@
 export type DeckId = string;
 export type CardId = string;
 
-export type CardType = 'vocab' | 'verb' | 'sentence';
+export type CardType = 'vocab' | 'verb' | 'adjective' | 'sentence';
+
+export type SchedulerKind = 'sm2' | 'fsrs';
+
+export type LeechAction = 'suspend' | 'tag';
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
 
 export type ExampleSentence = {
   ja: string;
@@ -14,6 +20,18 @@ export type Deck = {
   name: string;
   description?: string;
   direction?: 'en-ja' | 'ja-en';
+  scheduler?: SchedulerKind;
+  learningSteps?: number[];
+  relearningSteps?: number[];
+  newCardsPerDay?: number;
+  maxReviewsPerDay?: number;
+  leechThreshold?: number;
+  leechAction?: LeechAction;
+  fuzz?: boolean;
+  loadBalance?: boolean;
+  burySiblings?: boolean;
+  nearMissRetry?: boolean;
+  answerInKanji?: boolean;
   cardIds: CardId[];
 };
 
@@ -30,8 +48,19 @@ export type Card = {
   verbBaseKana?: string;
   verbBaseKanji?: string;
   verbForm?: string;
+  adjectiveBaseKana?: string;
+  adjectiveBaseKanji?: string;
+  adjectiveForm?: string;
   background?: string;
   exampleSentences?: ExampleSentence[];
+  alternatives?: string[];
+  // Sentence cards only; see expandAnswerPattern for the syntax.
+  answerPattern?: string;
+};
+
+export type FsrsMemory = {
+  stability: number;
+  difficulty: number;
 };
 
 export type CardSrs = {
@@ -42,6 +71,12 @@ export type CardSrs = {
   repetitions: number;
   lapses: number;
   lastReviewed?: number;
+  fsrs?: FsrsMemory;
+  phase?: 'learning' | 'relearning';
+  learningStep?: number;
+  suspended?: boolean;
+  buriedUntil?: number;
+  lapsedAt?: number[];
 };
 
 export type CardStats = {
@@ -49,6 +84,30 @@ export type CardStats = {
   correct: number;
 };
 
+export type DailyCounts = {
+  day: string;
+  newSeen: number;
+  reviews: number;
+};
+
+export type ReviewLogEntry = {
+  id?: number;
+  ts: number;
+  cardId: CardId;
+  deckId: DeckId;
+  typed: string;
+  correct: boolean;
+  grade: ReviewGrade;
+  prevIntervalDays: number;
+  nextIntervalDays: number;
+  nextDue: number;
+  easeFactor: number;
+  responseMs: number;
+  errorKind?: string;
+  // The answer turned a review card into a lapse.
+  lapse?: boolean;
+};
+
 export type VocabCategory = 'noun' | 'verb' | 'adjective' | 'adverb' | 'connector' | 'other';
 
 export type VocabPracticeFilter = {
@@ -67,7 +126,10 @@ export type AppState = {
   stats?: Record<CardId, CardStats>;
   wkApiToken?: string;
   wkLastVerbSyncAt?: number;
+  // Last VERB_FORM_BACKFILL_VERSION applied, so form cards the user deletes stay deleted.
+  verbFormBackfill?: number;
   vocabPracticeFilters?: Record<DeckId, VocabPracticeFilter>;
   kanaPracticeFilters?: Record<DeckId, KanaPracticeFilter>;
   repeatReviewLastAt?: Record<DeckId, number>;
+  dailyCounts?: Record<DeckId, DailyCounts>;
 };
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_NEW_BASES_PER_DAY,
+  countDueBreakdownForDeck,
+  getDailyCountsForDeck,
+  getDueCardIdsForDeck,
+  getSiblingCardIds,
+  getVerbLadderQueueForBases,
+  getVerbMixedQueueForBases,
+  recordDailyReview,
+  startOfNextDay,
+} from './queue';
+import { makeSeedState } from './seed';
+import { defaultSrs } from './srs';
+import type { AppState } from './models';
+
+const now = Date.UTC(2026, 0, 5, 12);
+
+const verbDeck = (state: AppState) => Object.values(state.decks).find((d) => d.name === 'Verb Conjugation')!;
+
+const baseOf = (state: AppState, id: string) => `${state.cards[id].verbBaseKanji ?? ''}||${state.cards[id].verbBaseKana}`;
+const basesOf = (state: AppState, ids: string[]) => new Set(ids.map((id) => baseOf(state, id)));
+
+describe('new limit in conjugation decks', () => {
+  it('counts new words, not cards, and keeps each ladder whole', () => {
+    const state = makeSeedState();
+    const deck = verbDeck(state);
+    const due = getDueCardIdsForDeck(state, deck.id, now);
+
+    const bases = basesOf(state, due);
+    expect(bases.size).toBe(DEFAULT_NEW_BASES_PER_DAY);
+    const ladders = deck.cardIds.filter((id) => bases.has(baseOf(state, id)));
+    expect(new Set(due)).toEqual(new Set(ladders));
+    expect(countDueBreakdownForDeck(state, deck.id, now).new).toBe(ladders.length);
+  });
+
+  it('charges a word once, on its first card', () => {
+    const state = makeSeedState();
+    const deck = verbDeck(state);
+    const [a, b] = deck.cardIds.filter((id) => baseOf(state, id) === baseOf(state, deck.cardIds[0]));
+
+    const afterFirst: AppState = { ...state, dailyCounts: recordDailyReview(state, deck.id, 'new', now, a) };
+    expect(getDailyCountsForDeck(afterFirst, deck.id, now).newSeen).toBe(1);
+
+    const started: AppState = {
+      ...afterFirst,
+      srs: { ...afterFirst.srs, [a]: { cardId: a, due: now, intervalDays: 0, easeFactor: 2.5, repetitions: 0, lapses: 0, lastReviewed: now, phase: 'learning', learningStep: 0 } },
+    };
+    const afterSecond: AppState = { ...started, dailyCounts: recordDailyReview(started, deck.id, 'new', now, b) };
+    expect(getDailyCountsForDeck(afterSecond, deck.id, now).newSeen).toBe(1);
+  });
+});
+
+describe('verb subset queues', () => {
+  it('skip suspended cards and buried cards until the burial ends', () => {
+    const state = makeSeedState();
+    const deck = verbDeck(state);
+    const base = baseOf(state, deck.cardIds[0]);
+    const ladder = deck.cardIds.filter((id) => baseOf(state, id) === base);
+    const [buried, suspended] = ladder;
+    const patched: AppState = {
+      ...state,
+      srs: {
+        ...state.srs,
+        [buried]: { ...defaultSrs(buried, now), buriedUntil: now + 1000 },
+        [suspended]: { ...defaultSrs(suspended, now), suspended: true },
+      },
+    };
+
+    const during = getVerbLadderQueueForBases(patched, deck.id, [base], now);
+    expect(during).not.toContain(buried);
+    expect(during).not.toContain(suspended);
+    expect(during).toHaveLength(ladder.length - 2);
+    expect(getVerbLadderQueueForBases(patched, deck.id, [base], now + 1000)).toContain(buried);
+
+    expect(getVerbMixedQueueForBases(patched, deck.id, [base], 100, now)).toHaveLength(ladder.length - 2);
+    expect(getVerbMixedQueueForBases(patched, deck.id, [base], 100, now + 1000)).toHaveLength(ladder.length - 1);
+  });
+});
+
+describe('sibling cards', () => {
+  const deckNamed = (state: AppState, name: string) => Object.values(state.decks).find((d) => d.name === name)!;
+
+  it('are the other forms of the same verb', () => {
+    const state = makeSeedState();
+    const deck = verbDeck(state);
+    const id = deck.cardIds[0];
+    const siblings = getSiblingCardIds(state, id);
+    expect(siblings).not.toContain(id);
+    expect(new Set(siblings)).toEqual(new Set(deck.cardIds.filter((other) => other !== id && baseOf(state, other) === baseOf(state, id))));
+  });
+
+  it('pair a vocab card with its mirrored reading card', () => {
+    const state = makeSeedState();
+    const enJa = deckNamed(state, 'Common Vocab (Non-WK)');
+    const jaEn = deckNamed(state, 'Common Vocab (Non-WK) — JP→EN');
+    const card = state.cards[enJa.cardIds[0]];
+    const mirror = jaEn.cardIds.find((id) => state.cards[id].prompt === card.answer && state.cards[id].answer === card.prompt)!;
+
+    expect(getSiblingCardIds(state, card.id)).toEqual([mirror]);
+    expect(getSiblingCardIds(state, mirror)).toEqual([card.id]);
+  });
+
+  it('stay out of the due queue while buried until the next day', () => {
+    const state = makeSeedState();
+    const enJa = deckNamed(state, 'Common Vocab (Non-WK)');
+    const jaEn = deckNamed(state, 'Common Vocab (Non-WK) — JP→EN');
+    const [mirror] = getSiblingCardIds(state, enJa.cardIds[0]);
+    const buried: AppState = {
+      ...state,
+      decks: { ...state.decks, [jaEn.id]: { ...jaEn, newCardsPerDay: jaEn.cardIds.length } },
+      srs: { ...state.srs, [mirror]: { ...defaultSrs(mirror, now), buriedUntil: startOfNextDay(now) } },
+    };
+    const due = (at: number) => getDueCardIdsForDeck(buried, jaEn.id, at);
+
+    expect(due(now)).not.toContain(mirror);
+    expect(due(startOfNextDay(now) - 1)).not.toContain(mirror);
+    expect(due(startOfNextDay(now))).toContain(mirror);
+  });
+});
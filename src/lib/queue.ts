@@ -1,6 +1,9 @@
-import type { AppState, CardId, DeckId, VocabCategory } from './models';
+import type { AppState, Card, CardId, CardSrs, DailyCounts, Deck, DeckId, VocabCategory } from './models';
 import { defaultSrs } from './srs';
-import { classifyVerb } from './seed';
+import { ADJECTIVE_FORMS, VERB_FORMS, classifyAdjective, classifyVerb, isAdjectiveForm, isKuruVerb, isVerbForm } from './seed';
+import type { VerbClass } from './seed';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 const shuffled = <T>(arr: T[]): T[] => {
   const a = [...arr];
@@ -11,9 +14,21 @@ const shuffled = <T>(arr: T[]): T[] => {
   return a;
 };
 
-const isVerbConjugationDeck = (state: AppState, deckId: DeckId): boolean => {
-  const name = state.decks[deckId]?.name ?? '';
-  return name.toLowerCase().includes('verb conjugation');
+export const isCardSuspended = (state: AppState, cardId: CardId): boolean => !!state.srs[cardId]?.suspended;
+
+export const isCardBuried = (state: AppState, cardId: CardId, now: number): boolean =>
+  (state.srs[cardId]?.buriedUntil ?? 0) > now;
+
+export const isCardActive = (state: AppState, cardId: CardId, now: number): boolean =>
+  !isCardSuspended(state, cardId) && !isCardBuried(state, cardId, now);
+
+const activeCardIds = (state: AppState, deck: Deck, now: number): CardId[] =>
+  deck.cardIds.filter((id) => isCardActive(state, id, now));
+
+// Verb and adjective conjugation decks share the ladder (all forms of one word in a row) and mixed queues.
+export const isConjugationDeck = (state: AppState, deckId: DeckId): boolean => {
+  const name = (state.decks[deckId]?.name ?? '').toLowerCase();
+  return name.includes('verb conjugation') || name.includes('adjective conjugation');
 };
 
 const looksLikeVerbBaseKana = (s: string): boolean => {
@@ -23,37 +38,28 @@ const looksLikeVerbBaseKana = (s: string): boolean => {
     kana.endsWith('つ') || kana.endsWith('ぬ') || kana.endsWith('ぶ') || kana.endsWith('む');
 };
 
-const isKnownVerbForm = (form: string | undefined): boolean => {
-  switch ((form ?? '').trim().toLowerCase()) {
-    case 'dictionary':
-    case 'polite_present':
-    case 'polite_negative':
-    case 'te':
-    case 'progressive':
-    case 'past':
-    case 'negative':
-    case 'past_negative':
-    case 'want':
-    case 'dont_want':
-    case 'want_past':
-    case 'dont_want_past':
-      return true;
-    default:
-      return false;
-  }
-};
-
 const isGeneratedVerbCard = (c: { type?: string; pos?: string; prompt?: string; verbBaseKana?: string; verbForm?: string } | undefined): boolean => {
   if (!c || c.type !== 'verb') return false;
   const baseKana = (c.verbBaseKana ?? '').trim();
   if (!baseKana) return false;
   if (!looksLikeVerbBaseKana(baseKana)) return false;
-  if (!isKnownVerbForm(c.verbForm)) return false;
+  if (!isVerbForm((c.verbForm ?? '').trim().toLowerCase())) return false;
   const pos = (c.pos ?? '').toLowerCase();
   const cue = (c.prompt ?? '').trim().toLowerCase();
   return /\bverb\b/.test(pos) || cue.startsWith('to ');
 };
 
+const isGeneratedAdjectiveCard = (
+  c: { type?: string; pos?: string; adjectiveBaseKana?: string; adjectiveForm?: string } | undefined,
+): boolean => {
+  if (!c || c.type !== 'adjective') return false;
+  if (!(c.adjectiveBaseKana ?? '').trim()) return false;
+  return isAdjectiveForm(c.adjectiveForm) && !!classifyAdjective(c.pos);
+};
+
+const isGeneratedConjugationCard = (c: Card | undefined): boolean =>
+  isGeneratedVerbCard(c) || isGeneratedAdjectiveCard(c);
+
 export const isVocabOnlyDeck = (state: AppState, deckId: DeckId): boolean => {
   const deck = state.decks[deckId];
   if (!deck || deck.cardIds.length === 0) return false;
@@ -107,8 +113,9 @@ const getVocabPracticeFilteredIds = (state: AppState, deckId: DeckId, ids: CardI
 
 const verbBaseKey = (state: AppState, cardId: CardId): string => {
   const c = state.cards[cardId];
-  const baseKana = (c?.verbBaseKana || c?.answer || '').trim();
-  const baseKanji = (c?.verbBaseKanji || '').trim();
+  const adjective = c?.type === 'adjective';
+  const baseKana = ((adjective ? c?.adjectiveBaseKana : c?.verbBaseKana) || c?.answer || '').trim();
+  const baseKanji = ((adjective ? c?.adjectiveBaseKanji : c?.verbBaseKanji) || '').trim();
   const raw = `${baseKanji}||${baseKana}`.trim();
   return raw && raw !== '||' ? raw : cardId;
 };
@@ -117,7 +124,7 @@ type VerbBaseEntry = {
   baseKey: string;
   baseKana: string;
   baseKanji?: string;
-  cls: 'ichidan' | 'godan';
+  cls: VerbClass;
   ending: string;
 };
 
@@ -129,7 +136,7 @@ const verbEndingForBaseKana = (baseKana: string): string => {
   const b = normalizeVerbBaseKana(baseKana);
   if (!b) return '';
   if (b.endsWith('する')) return 'する';
-  if (b.endsWith('くる')) return 'くる';
+  if (isKuruVerb(b)) return 'くる';
   return b.slice(-1);
 };
 
@@ -177,7 +184,7 @@ export const getVerbEndingsPresentForDeck = (state: AppState, deckId: DeckId): s
   return [...out.values()].sort((a, b) => a.localeCompare(b));
 };
 
-export const getVerbBaseKeysForVerbClass = (state: AppState, deckId: DeckId, cls: 'ichidan' | 'godan'): string[] => {
+export const getVerbBaseKeysForVerbClass = (state: AppState, deckId: DeckId, cls: VerbClass): string[] => {
   return getVerbDictionaryBases(state, deckId)
     .filter((b) => b.cls === cls)
     .map((b) => b.baseKey);
@@ -192,34 +199,13 @@ export const getVerbBaseKeysForVerbEnding = (state: AppState, deckId: DeckId, en
 };
 
 const verbFormRank = (form: string | undefined): number => {
-  switch ((form ?? '').toLowerCase()) {
-    case 'dictionary':
-      return 0;
-    case 'polite_present':
-      return 1;
-    case 'polite_negative':
-      return 2;
-    case 'te':
-      return 3;
-    case 'progressive':
-      return 4;
-    case 'past':
-      return 5;
-    case 'negative':
-      return 6;
-    case 'past_negative':
-      return 7;
-    case 'want':
-      return 8;
-    case 'dont_want':
-      return 9;
-    case 'want_past':
-      return 10;
-    case 'dont_want_past':
-      return 11;
-    default:
-      return 100;
-  }
+  const f = (form ?? '').trim().toLowerCase();
+  return isVerbForm(f) ? VERB_FORMS.indexOf(f) : 100;
+};
+
+const adjectiveFormRank = (form: string | undefined): number => {
+  const f = (form ?? '').trim().toLowerCase();
+  return isAdjectiveForm(f) ? ADJECTIVE_FORMS.indexOf(f) : 100;
 };
 
 const orderVerbCardsForLadder = (state: AppState, ids: CardId[]): CardId[] => {
@@ -227,8 +213,8 @@ const orderVerbCardsForLadder = (state: AppState, ids: CardId[]): CardId[] => {
   sorted.sort((a, b) => {
     const ca = state.cards[a];
     const cb = state.cards[b];
-    const ra = verbFormRank(ca?.verbForm);
-    const rb = verbFormRank(cb?.verbForm);
+    const ra = ca?.type === 'adjective' ? adjectiveFormRank(ca.adjectiveForm) : verbFormRank(ca?.verbForm);
+    const rb = cb?.type === 'adjective' ? adjectiveFormRank(cb.adjectiveForm) : verbFormRank(cb?.verbForm);
     if (ra !== rb) return ra - rb;
     const aa = (ca?.answer ?? '').localeCompare(cb?.answer ?? '');
     if (aa !== 0) return aa;
@@ -237,15 +223,15 @@ const orderVerbCardsForLadder = (state: AppState, ids: CardId[]): CardId[] => {
   return sorted;
 };
 
-export const getVerbMixedQueueForPractice = (state: AppState, deckId: DeckId, _now: number, limit: number): CardId[] => {
+export const getVerbMixedQueueForPractice = (state: AppState, deckId: DeckId, now: number, limit: number): CardId[] => {
   const deck = state.decks[deckId];
   if (!deck) return [];
   if (limit <= 0) return [];
 
   const all: CardId[] = [];
-  for (const id of deck.cardIds) {
+  for (const id of activeCardIds(state, deck, now)) {
     const c = state.cards[id];
-    if (c && !isGeneratedVerbCard(c)) continue;
+    if (c && !isGeneratedConjugationCard(c)) continue;
     all.push(id);
   }
 
@@ -254,17 +240,139 @@ export const getVerbMixedQueueForPractice = (state: AppState, deckId: DeckId, _n
   return mixed.slice(0, limit);
 };
 
+export const DEFAULT_NEW_CARDS_PER_DAY = 20;
+export const DEFAULT_MAX_REVIEWS_PER_DAY = 200;
+// Conjugation decks count new words, each of which brings its whole form ladder.
+export const DEFAULT_NEW_BASES_PER_DAY = 2;
+
+export const newPerDayForDeck = (state: AppState, deck: Deck): number =>
+  deck.newCardsPerDay ?? (isConjugationDeck(state, deck.id) ? DEFAULT_NEW_BASES_PER_DAY : DEFAULT_NEW_CARDS_PER_DAY);
+
+// In a conjugation deck a new card only counts when it is the first of its word to be seen.
+const countsAsNew = (state: AppState, cardId: CardId | undefined): boolean => {
+  const card = cardId ? state.cards[cardId] : undefined;
+  if (!card || !isGeneratedConjugationCard(card) || !isConjugationDeck(state, card.deckId)) return true;
+  return getSiblingCardIds(state, card.id).every((id) => srsQueueKind(state.srs[id]) === 'new');
+};
+
+export type SrsQueueKind = 'new' | 'learning' | 'review';
+
+export const srsQueueKind = (srs: CardSrs | undefined): SrsQueueKind => {
+  if (!srs) return 'new';
+  if (srs.phase) return 'learning';
+  if (!srs.lastReviewed && srs.repetitions === 0 && srs.lapses === 0) return 'new';
+  return 'review';
+};
+
+export const dayKey = (now: number): string => {
+  const d = new Date(now);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+export const startOfNextDay = (now: number): number => {
+  const d = new Date(now);
+  d.setHours(24, 0, 0, 0);
+  return d.getTime();
+};
+
+// Review cards already scheduled per day from now, for load balancing new due dates.
+export const getDueHistogramForDeck = (state: AppState, deckId: DeckId, now: number): Record<number, number> => {
+  const deck = state.decks[deckId];
+  const out: Record<number, number> = {};
+  if (!deck) return out;
+  for (const id of deck.cardIds) {
+    const srs = state.srs[id];
+    if (!srs || srs.phase || srs.suspended || srs.due <= now) continue;
+    const day = Math.round((srs.due - now) / DAY_MS);
+    out[day] = (out[day] ?? 0) + 1;
+  }
+  return out;
+};
+
+export const getDailyCountsForDeck = (state: AppState, deckId: DeckId, now: number): DailyCounts => {
+  const day = dayKey(now);
+  const counts = state.dailyCounts?.[deckId];
+  return counts && counts.day === day ? counts : { day, newSeen: 0, reviews: 0 };
+};
+
+export const recordDailyReview = (
+  state: AppState,
+  deckId: DeckId,
+  kind: SrsQueueKind,
+  now: number,
+  cardId?: CardId,
+): Record<DeckId, DailyCounts> => {
+  const counts = getDailyCountsForDeck(state, deckId, now);
+  return {
+    ...(state.dailyCounts ?? {}),
+    [deckId]: {
+      ...counts,
+      newSeen: counts.newSeen + (kind === 'new' && countsAsNew(state, cardId) ? 1 : 0),
+      reviews: counts.reviews + (kind === 'review' ? 1 : 0),
+    },
+  };
+};
+
+type DueCards = Record<SrsQueueKind, CardId[]>;
+
+// Learning cards are never held back; new and review cards are capped by what's left of today's limits.
+const selectDueCards = (state: AppState, deck: Deck, candidateIds: CardId[], now: number): DueCards => {
+  const learning: { id: CardId; due: number }[] = [];
+  const review: { id: CardId; due: number }[] = [];
+  const fresh: CardId[] = [];
+  for (const cardId of candidateIds) {
+    const srs = state.srs[cardId];
+    if ((srs ?? defaultSrs(cardId, now)).due > now) continue;
+    const kind = srsQueueKind(srs);
+    if (kind === 'new') fresh.push(cardId);
+    else (kind === 'learning' ? learning : review).push({ id: cardId, due: srs!.due });
+  }
+
+  const counts = getDailyCountsForDeck(state, deck.id, now);
+  const newLeft = Math.max(0, newPerDayForDeck(state, deck) - counts.newSeen);
+  const reviewsLeft = Math.max(0, (deck.maxReviewsPerDay ?? DEFAULT_MAX_REVIEWS_PER_DAY) - counts.reviews);
+
+  learning.sort((a, b) => a.due - b.due);
+  review.sort((a, b) => a.due - b.due);
+  return {
+    learning: learning.map((d) => d.id),
+    review: review.slice(0, reviewsLeft).map((d) => d.id),
+    new: isConjugationDeck(state, deck.id) ? selectNewBases(state, deck, fresh, newLeft) : fresh.slice(0, newLeft),
+  };
+};
+
+// The limit counts words, not cards: a word's whole ladder comes in together, and the rest of a word already started is free.
+const selectNewBases = (state: AppState, deck: Deck, fresh: CardId[], basesLeft: number): CardId[] => {
+  const started = new Set<string>();
+  for (const id of deck.cardIds) {
+    if (srsQueueKind(state.srs[id]) !== 'new') started.add(verbBaseKey(state, id));
+  }
+  const picked = new Set<string>();
+  return fresh.filter((id) => {
+    const base = verbBaseKey(state, id);
+    if (started.has(base) || picked.has(base)) return true;
+    if (picked.size >= basesLeft) return false;
+    picked.add(base);
+    return true;
+  });
+};
+
+const dueCandidateIds = (state: AppState, deck: Deck, now: number): CardId[] => {
+  const active = activeCardIds(state, deck, now);
+  if (!isConjugationDeck(state, deck.id)) return active;
+  return active.filter((id) => {
+    const c = state.cards[id];
+    return !c || isGeneratedConjugationCard(c);
+  });
+};
+
 export const getVerbLadderQueueForReview = (state: AppState, deckId: DeckId, now: number): CardId[] => {
   const deck = state.decks[deckId];
   if (!deck) return [];
 
-  const dueIds: CardId[] = [];
-  for (const cardId of deck.cardIds) {
-    const c = state.cards[cardId];
-    if (c && !isGeneratedVerbCard(c)) continue;
-    const srs = state.srs[cardId] ?? defaultSrs(cardId, now);
-    if (srs.due <= now) dueIds.push(cardId);
-  }
+  const selected = selectDueCards(state, deck, dueCandidateIds(state, deck, now), now);
+  const dueIds = [...selected.learning, ...selected.review, ...selected.new];
   if (dueIds.length === 0) return [];
 
   const minDueByBase = new Map<string, number>();
@@ -296,9 +404,9 @@ export const getVerbLadderQueueForPractice = (state: AppState, deckId: DeckId, n
   if (limit <= 0) return [];
 
   const byBase = new Map<string, CardId[]>();
-  for (const id of deck.cardIds) {
+  for (const id of activeCardIds(state, deck, now)) {
     const c = state.cards[id];
-    if (c && !isGeneratedVerbCard(c)) continue;
+    if (c && !isGeneratedConjugationCard(c)) continue;
     const base = verbBaseKey(state, id);
     const bucket = byBase.get(base) ?? [];
     bucket.push(id);
@@ -329,7 +437,12 @@ export const getVerbLadderQueueForPractice = (state: AppState, deckId: DeckId, n
   return out;
 };
 
-export const getVerbLadderQueueForBases = (state: AppState, deckId: DeckId, orderedBaseKeys: string[]): CardId[] => {
+export const getVerbLadderQueueForBases = (
+  state: AppState,
+  deckId: DeckId,
+  orderedBaseKeys: string[],
+  now: number = Date.now(),
+): CardId[] => {
   const deck = state.decks[deckId];
   if (!deck) return [];
 
@@ -342,7 +455,7 @@ export const getVerbLadderQueueForBases = (state: AppState, deckId: DeckId, orde
   if (baseOrder.size === 0) return [];
 
   const byBase = new Map<string, CardId[]>();
-  for (const id of deck.cardIds) {
+  for (const id of activeCardIds(state, deck, now)) {
     const c = state.cards[id];
     if (c && !isGeneratedVerbCard(c)) continue;
     const base = verbBaseKey(state, id);
@@ -357,7 +470,13 @@ export const getVerbLadderQueueForBases = (state: AppState, deckId: DeckId, orde
   return groups.flatMap((g) => g.ids);
 };
 
-export const getVerbMixedQueueForBases = (state: AppState, deckId: DeckId, baseKeys: string[], limit: number): CardId[] => {
+export const getVerbMixedQueueForBases = (
+  state: AppState,
+  deckId: DeckId,
+  baseKeys: string[],
+  limit: number,
+  now: number = Date.now(),
+): CardId[] => {
   const deck = state.decks[deckId];
   if (!deck) return [];
   if (limit <= 0) return [];
@@ -367,7 +486,7 @@ export const getVerbMixedQueueForBases = (state: AppState, deckId: DeckId, baseK
   const wantedSet = new Set(wanted);
 
   const all: CardId[] = [];
-  for (const id of deck.cardIds) {
+  for (const id of activeCardIds(state, deck, now)) {
     const c = state.cards[id];
     if (c && !isGeneratedVerbCard(c)) continue;
     const base = verbBaseKey(state, id);
@@ -380,24 +499,73 @@ export const getVerbMixedQueueForBases = (state: AppState, deckId: DeckId, baseK
   return mixed.slice(0, limit);
 };
 
-export const getVerbLadderQueueForVerbClass = (state: AppState, deckId: DeckId, cls: 'ichidan' | 'godan'): CardId[] => {
+export const getVerbCardIdsForBases = (state: AppState, deckId: DeckId, baseKeys: string[]): CardId[] => {
+  const deck = state.decks[deckId];
+  if (!deck) return [];
+  const wanted = new Set(baseKeys);
+  return deck.cardIds.filter((id) => {
+    const c = state.cards[id];
+    return !!c && isGeneratedVerbCard(c) && wanted.has(verbBaseKey(state, id));
+  });
+};
+
+const vocabPairKey = (state: AppState, cardId: CardId): string | undefined => {
+  const c = state.cards[cardId];
+  if (!c || c.type !== 'vocab') return undefined;
+  const isJaEn = state.decks[c.deckId]?.direction === 'ja-en';
+  const ja = (isJaEn ? c.prompt : c.answer).trim();
+  const en = (isJaEn ? c.answer : c.prompt).trim().toLowerCase();
+  return ja && en ? `${ja}||${en}` : undefined;
+};
+
+// Other forms of the same verb or adjective, or the same word in another (usually mirrored) deck.
+export const getSiblingCardIds = (state: AppState, cardId: CardId): CardId[] => {
+  const card = state.cards[cardId];
+  if (!card) return [];
+
+  if (isGeneratedConjugationCard(card)) {
+    const base = verbBaseKey(state, cardId);
+    return (state.decks[card.deckId]?.cardIds ?? []).filter(
+      (id) => id !== cardId && isGeneratedConjugationCard(state.cards[id]) && verbBaseKey(state, id) === base,
+    );
+  }
+
+  const key = vocabPairKey(state, cardId);
+  if (!key) return [];
+  return Object.values(state.cards)
+    .filter((c) => c.deckId !== card.deckId && vocabPairKey(state, c.id) === key)
+    .map((c) => c.id);
+};
+
+export const getVerbLadderQueueForVerbClass = (
+  state: AppState,
+  deckId: DeckId,
+  cls: VerbClass,
+  now: number = Date.now(),
+): CardId[] => {
   const bases = getVerbBaseKeysForVerbClass(state, deckId, cls);
-  return getVerbLadderQueueForBases(state, deckId, bases);
+  return getVerbLadderQueueForBases(state, deckId, bases, now);
 };
 
 export const getVerbMixedQueueForVerbClass = (
   state: AppState,
   deckId: DeckId,
-  cls: 'ichidan' | 'godan',
+  cls: VerbClass,
   limit: number,
+  now: number = Date.now(),
 ): CardId[] => {
   const bases = getVerbBaseKeysForVerbClass(state, deckId, cls);
-  return getVerbMixedQueueForBases(state, deckId, bases, limit);
+  return getVerbMixedQueueForBases(state, deckId, bases, limit, now);
 };
 
-export const getVerbLadderQueueForVerbEnding = (state: AppState, deckId: DeckId, ending: string): CardId[] => {
+export const getVerbLadderQueueForVerbEnding = (
+  state: AppState,
+  deckId: DeckId,
+  ending: string,
+  now: number = Date.now(),
+): CardId[] => {
   const bases = getVerbBaseKeysForVerbEnding(state, deckId, ending);
-  return getVerbLadderQueueForBases(state, deckId, bases);
+  return getVerbLadderQueueForBases(state, deckId, bases, now);
 };
 
 export const getVerbMixedQueueForVerbEnding = (
@@ -405,33 +573,36 @@ export const getVerbMixedQueueForVerbEnding = (
   deckId: DeckId,
   ending: string,
   limit: number,
+  now: number = Date.now(),
 ): CardId[] => {
   const bases = getVerbBaseKeysForVerbEnding(state, deckId, ending);
-  return getVerbMixedQueueForBases(state, deckId, bases, limit);
+  return getVerbMixedQueueForBases(state, deckId, bases, limit, now);
 };
 
 export const getDueCardIdsForDeck = (state: AppState, deckId: DeckId, now: number): CardId[] => {
   const deck = state.decks[deckId];
   if (!deck) return [];
 
-  if (isVerbConjugationDeck(state, deckId)) {
+  if (isConjugationDeck(state, deckId)) {
     return getVerbLadderQueueForReview(state, deckId, now);
   }
 
-  const due: { id: CardId; due: number }[] = [];
-  for (const cardId of deck.cardIds) {
-    const srs = state.srs[cardId] ?? defaultSrs(cardId, now);
-    if (srs.due <= now) due.push({ id: cardId, due: srs.due });
-  }
-
-  due.sort((a, b) => a.due - b.due);
-  return shuffled(due.map((d) => d.id));
+  const selected = selectDueCards(state, deck, dueCandidateIds(state, deck, now), now);
+  // Cards mid-step come first, in the order their steps fell due.
+  return [...selected.learning, ...shuffled([...selected.review, ...selected.new])];
 };
 
 export const countDueForDeck = (state: AppState, deckId: DeckId, now: number): number => {
   return getDueCardIdsForDeck(state, deckId, now).length;
 };
 
+export const countDueBreakdownForDeck = (state: AppState, deckId: DeckId, now: number): Record<SrsQueueKind, number> => {
+  const deck = state.decks[deckId];
+  if (!deck) return { new: 0, learning: 0, review: 0 };
+  const selected = selectDueCards(state, deck, dueCandidateIds(state, deck, now), now);
+  return { new: selected.new.length, learning: selected.learning.length, review: selected.review.length };
+};
+
 export const getPracticeCardIdsForDeck = (
   state: AppState,
   deckId: DeckId,
@@ -441,11 +612,12 @@ export const getPracticeCardIdsForDeck = (
   const deck = state.decks[deckId];
   if (!deck) return [];
 
-  if (isVerbConjugationDeck(state, deckId)) {
+  if (isConjugationDeck(state, deckId)) {
     return getVerbLadderQueueForPractice(state, deckId, now, limit);
   }
 
-  const baseIds = isVocabOnlyDeck(state, deckId) ? getVocabPracticeFilteredIds(state, deckId, deck.cardIds) : deck.cardIds;
+  const active = activeCardIds(state, deck, now);
+  const baseIds = isVocabOnlyDeck(state, deckId) ? getVocabPracticeFilteredIds(state, deckId, active) : active;
   const baseSet = new Set(baseIds);
 
   const due = getDueCardIdsForDeck(state, deckId, now).filter((id) => baseSet.has(id));
@@ -491,7 +663,7 @@ export const getPracticeCardIdsForDeckByTags = (
   const wanted = tags.map((t) => (t ?? '').trim()).filter(Boolean);
   if (wanted.length === 0) return getPracticeCardIdsForDeck(state, deckId, now, limit);
 
-  const baseIds = deck.cardIds.filter((id) => {
+  const baseIds = activeCardIds(state, deck, now).filter((id) => {
     const c = state.cards[id];
     const ts = c?.tags ?? [];
     if (!Array.isArray(ts) || ts.length === 0) return false;
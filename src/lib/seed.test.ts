@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { VERB_FORMS, classifyVerb, conjugateVerb, isVerbForm, makeVerbFormCard } from './seed';
+import type { VerbForm } from './seed';
+
+describe('kanji surface forms', () => {
+  it('keeps 来 and changes only the reading', () => {
+    expect(conjugateVerb('来る', 'くる', 'negative', classifyVerb('くる', '来る'))).toBe('来ない');
+    expect(conjugateVerb('来る', 'くる', 'polite_present', classifyVerb('くる', '来る'))).toBe('来ます');
+    expect(conjugateVerb('来る', 'くる', 'conditional_ba', classifyVerb('くる', '来る'))).toBe('来れば');
+
+    const card = makeVerbFormCard('deck', { prompt: 'to come' }, 'くる', '来る', 'past_negative');
+    expect(card.answer).toBe('こなかった');
+    expect(card.kanji).toBe('来なかった');
+  });
+
+  it('conjugates つくる / 作る as a regular godan verb, not as くる', () => {
+    const card = makeVerbFormCard('deck', { prompt: 'to make' }, 'つくる', '作る', 'negative');
+    expect(card.answer).toBe('つくらない');
+    expect(card.kanji).toBe('作らない');
+
+    expect(conjugateVerb('作る', 'つくる', 'polite_present', classifyVerb('つくる', '作る'))).toBe('作ります');
+    expect(conjugateVerb('つくる', 'つくる', 'te', classifyVerb('つくる'))).toBe('つくって');
+  });
+});
+
+// Dictionary → polite past, polite past negative, potential, passive, causative, causative-passive, volitional, imperative, ば, たら.
+const NEW_FORMS: VerbForm[] = [
+  'polite_past',
+  'polite_past_negative',
+  'potential',
+  'passive',
+  'causative',
+  'causative_passive',
+  'volitional',
+  'imperative',
+  'conditional_ba',
+  'conditional_tara',
+];
+
+const NEW_FORM_TABLE: Array<[string, string[]]> = [
+  ['たべる', ['たべました', 'たべませんでした', 'たべられる', 'たべられる', 'たべさせる', 'たべさせられる', 'たべよう', 'たべろ', 'たべれば', 'たべたら']],
+  ['かく', ['かきました', 'かきませんでした', 'かける', 'かかれる', 'かかせる', 'かかされる', 'かこう', 'かけ', 'かけば', 'かいたら']],
+  ['はなす', ['はなしました', 'はなしませんでした', 'はなせる', 'はなされる', 'はなさせる', 'はなさせられる', 'はなそう', 'はなせ', 'はなせば', 'はなしたら']],
+  ['かう', ['かいました', 'かいませんでした', 'かえる', 'かわれる', 'かわせる', 'かわされる', 'かおう', 'かえ', 'かえば', 'かったら']],
+  ['いく', ['いきました', 'いきませんでした', 'いける', 'いかれる', 'いかせる', 'いかされる', 'いこう', 'いけ', 'いけば', 'いったら']],
+  ['つくる', ['つくりました', 'つくりませんでした', 'つくれる', 'つくられる', 'つくらせる', 'つくらされる', 'つくろう', 'つくれ', 'つくれば', 'つくったら']],
+  ['くる', ['きました', 'きませんでした', 'こられる', 'こられる', 'こさせる', 'こさせられる', 'こよう', 'こい', 'くれば', 'きたら']],
+  ['べんきょうする', [
+    'べんきょうしました',
+    'べんきょうしませんでした',
+    'べんきょうできる',
+    'べんきょうされる',
+    'べんきょうさせる',
+    'べんきょうさせられる',
+    'べんきょうしよう',
+    'べんきょうしろ',
+    'べんきょうすれば',
+    'べんきょうしたら',
+  ]],
+];
+
+describe('conjugateVerb', () => {
+  it.each(NEW_FORM_TABLE)('builds every added form of %s', (base, expected) => {
+    const cls = classifyVerb(base);
+    expect(NEW_FORMS.map((form) => conjugateVerb(base, base, form, cls))).toEqual(expected);
+  });
+
+  it('covers all 22 forms for a regular godan verb', () => {
+    expect(VERB_FORMS.map((form) => conjugateVerb('のむ', 'のむ', form, 'godan'))).toEqual([
+      'のむ',
+      'のみます',
+      'のみません',
+      'のんで',
+      'のんでいる',
+      'のんだ',
+      'のまない',
+      'のまなかった',
+      'のみたい',
+      'のみたくない',
+      'のみたかった',
+      'のみたくなかった',
+      'のみました',
+      'のみませんでした',
+      'のめる',
+      'のまれる',
+      'のませる',
+      'のまされる',
+      'のもう',
+      'のめ',
+      'のめば',
+      'のんだら',
+    ]);
+  });
+
+  it('keeps ある irregular in the negative', () => {
+    expect(conjugateVerb('ある', 'ある', 'negative', classifyVerb('ある'))).toBe('ない');
+    expect(conjugateVerb('ある', 'ある', 'polite_past_negative', classifyVerb('ある'))).toBe('ありませんでした');
+  });
+
+  it('uses the い-stem for honorific polite forms and the imperative', () => {
+    expect(conjugateVerb('くださる', 'くださる', 'polite_past', classifyVerb('くださる'))).toBe('くださいました');
+    expect(conjugateVerb('なさる', 'なさる', 'imperative', classifyVerb('なさる'))).toBe('なさい');
+    expect(conjugateVerb('いらっしゃる', 'いらっしゃる', 'negative', classifyVerb('いらっしゃる'))).toBe('いらっしゃらない');
+  });
+});
+
+describe('isVerbForm', () => {
+  it('only narrows exact form literals', () => {
+    expect(isVerbForm('te')).toBe(true);
+    expect(isVerbForm(' Te ')).toBe(false);
+    expect(isVerbForm(undefined)).toBe(false);
+  });
+});
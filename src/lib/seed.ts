@@ -75,8 +75,66 @@ export type VerbForm =
   | 'want'
   | 'dont_want'
   | 'want_past'
-  | 'dont_want_past';
-export type VerbClass = 'ichidan' | 'godan';
+  | 'dont_want_past'
+  | 'polite_past'
+  | 'polite_past_negative'
+  | 'potential'
+  | 'passive'
+  | 'causative'
+  | 'causative_passive'
+  | 'volitional'
+  | 'imperative'
+  | 'conditional_ba'
+  | 'conditional_tara';
+export type VerbClass = 'ichidan' | 'godan' | 'honorific';
+
+// Keigo る-verbs: godan, except that the ます-stem and the imperative use い (くださいます, ください).
+export const HONORIFIC_VERBS = ['くださる', 'いらっしゃる', 'おっしゃる', 'なさる', 'ござる'];
+
+// Only くる itself (or a kanji base ending in 来る) is irregular; つくる and other 〜くる verbs are regular godan.
+export const isKuruVerb = (baseKana: string, baseKanji?: string): boolean =>
+  baseKana.trim() === 'くる' || (baseKanji ?? '').trim().endsWith('来る');
+
+export const VERB_FORMS: VerbForm[] = [
+  'dictionary',
+  'polite_present',
+  'polite_negative',
+  'te',
+  'progressive',
+  'past',
+  'negative',
+  'past_negative',
+  'want',
+  'dont_want',
+  'want_past',
+  'dont_want_past',
+  'polite_past',
+  'polite_past_negative',
+  'potential',
+  'passive',
+  'causative',
+  'causative_passive',
+  'volitional',
+  'imperative',
+  'conditional_ba',
+  'conditional_tara',
+];
+
+// Bump when VERB_FORMS grows so existing verbs get cards for the new forms, once (see migrateState).
+export const VERB_FORM_BACKFILL_VERSION = 1;
+
+// Exact match only: callers normalize stored values (trim + lowercase) before narrowing.
+export const isVerbForm = (form: string | undefined): form is VerbForm => (VERB_FORMS as string[]).includes(form ?? '');
+
+// ある and the keigo verbs have no potential, passive or causative forms in everyday use, so no cards are made for them.
+// ござる only survives in its polite forms (ございます).
+export const verbFormsForBase = (baseKana: string): VerbForm[] => {
+  const kana = baseKana.trim();
+  if (kana === 'ござる') return ['dictionary', 'polite_present', 'polite_negative', 'polite_past', 'polite_past_negative'];
+  return kana === 'ある' || HONORIFIC_VERBS.includes(kana)
+    ? VERB_FORMS.filter((f) => f !== 'potential' && f !== 'passive' && f !== 'causative' && f !== 'causative_passive')
+    : VERB_FORMS;
+};
 
 export const verbFormLabel = (form: VerbForm): string => {
   switch (form) {
@@ -104,7 +162,182 @@ export const verbFormLabel = (form: VerbForm): string => {
       return 'Desiderative (past) (〜たかった)';
     case 'dont_want_past':
       return 'Desiderative past negative (〜たくなかった)';
+    case 'polite_past':
+      return 'Past indicative (polite) (〜ました)';
+    case 'polite_past_negative':
+      return 'Past negative (polite) (〜ませんでした)';
+    case 'potential':
+      return 'Potential (can) (〜られる/〜える)';
+    case 'passive':
+      return 'Passive (〜られる/〜れる)';
+    case 'causative':
+      return 'Causative (make/let) (〜させる/〜せる)';
+    case 'causative_passive':
+      return 'Causative-passive (be made to) (〜させられる/〜される)';
+    case 'volitional':
+      return "Volitional (let's) (〜よう/〜おう)";
+    case 'imperative':
+      return 'Imperative (command) (〜ろ/〜え)';
+    case 'conditional_ba':
+      return 'Conditional (if) (〜ば)';
+    case 'conditional_tara':
+      return 'Conditional (when/if) (〜たら)';
+  }
+};
+
+// One-line rule for producing `form` from the dictionary form; shared by the card hint and mistake diagnosis.
+export const verbQuickRuleText = (form: VerbForm, baseKana: string, cls: VerbClass): string => {
+  const base = baseKana.trim();
+  const end = lastKana(base);
+  const isSuru = base.endsWith('する');
+  const isKuru = isKuruVerb(base);
+  const isIku = base === 'いく';
+  const isAru = base === 'ある';
+
+  const iRow: Record<string, string> = { う: 'い', く: 'き', ぐ: 'ぎ', す: 'し', つ: 'ち', ぬ: 'に', ぶ: 'び', む: 'み', る: 'り' };
+  const aRow: Record<string, string> = { う: 'わ', く: 'か', ぐ: 'が', す: 'さ', つ: 'た', ぬ: 'な', ぶ: 'ば', む: 'ま', る: 'ら' };
+  const eRow: Record<string, string> = { う: 'え', く: 'け', ぐ: 'げ', す: 'せ', つ: 'て', ぬ: 'ね', ぶ: 'べ', む: 'め', る: 'れ' };
+  const oRow: Record<string, string> = { う: 'お', く: 'こ', ぐ: 'ご', す: 'そ', つ: 'と', ぬ: 'の', ぶ: 'ぼ', む: 'も', る: 'ろ' };
+  const teSuffix: Record<string, string> = { う: 'って', つ: 'って', る: 'って', む: 'んで', ぶ: 'んで', ぬ: 'んで', く: 'いて', ぐ: 'いで', す: 'して' };
+  const taSuffix: Record<string, string> = { う: 'った', つ: 'った', る: 'った', む: 'んだ', ぶ: 'んだ', ぬ: 'んだ', く: 'いた', ぐ: 'いだ', す: 'した' };
+
+  if (!base) return '';
+
+  if (form === 'dictionary') return '- Dictionary form (as-is).';
+
+  if (isSuru) {
+    const p = base.slice(0, -2);
+    const map: Record<VerbForm, string> = {
+      dictionary: `${base}`,
+      polite_present: `${p}します`,
+      polite_negative: `${p}しません`,
+      te: `${p}して`,
+      progressive: `${p}している`,
+      past: `${p}した`,
+      negative: `${p}しない`,
+      past_negative: `${p}しなかった`,
+      want: `${p}したい`,
+      dont_want: `${p}したくない`,
+      want_past: `${p}したかった`,
+      dont_want_past: `${p}したくなかった`,
+      polite_past: `${p}しました`,
+      polite_past_negative: `${p}しませんでした`,
+      potential: `${p}できる`,
+      passive: `${p}される`,
+      causative: `${p}させる`,
+      causative_passive: `${p}させられる`,
+      volitional: `${p}しよう`,
+      imperative: `${p}しろ`,
+      conditional_ba: `${p}すれば`,
+      conditional_tara: `${p}したら`,
+    };
+    return `- …する: ${base} → ${map[form]}`;
+  }
+
+  if (isKuru) {
+    const p = base.slice(0, -2);
+    const map: Record<VerbForm, string> = {
+      dictionary: `${base}`,
+      polite_present: `${p}きます`,
+      polite_negative: `${p}きません`,
+      te: `${p}きて`,
+      progressive: `${p}きている`,
+      past: `${p}きた`,
+      negative: `${p}こない`,
+      past_negative: `${p}こなかった`,
+      want: `${p}きたい`,
+      dont_want: `${p}きたくない`,
+      want_past: `${p}きたかった`,
+      dont_want_past: `${p}きたくなかった`,
+      polite_past: `${p}きました`,
+      polite_past_negative: `${p}きませんでした`,
+      potential: `${p}こられる`,
+      passive: `${p}こられる`,
+      causative: `${p}こさせる`,
+      causative_passive: `${p}こさせられる`,
+      volitional: `${p}こよう`,
+      imperative: `${p}こい`,
+      conditional_ba: `${p}くれば`,
+      conditional_tara: `${p}きたら`,
+    };
+    return `- …くる: ${base} → ${map[form]}`;
   }
+
+  if (isAru && (form === 'negative' || form === 'past_negative')) {
+    return form === 'negative' ? '- ある (negative): ない' : '- ある (past negative): なかった';
+  }
+  if (isAru && form === 'polite_past_negative') return '- ある (polite past negative): ありませんでした';
+  if (form === 'conditional_tara') return `- Tara-conditional: past (た-form) + ら${isIku ? ' (いく → いったら)' : ''}`;
+
+  if (form === 'progressive') return '- Progressive: te-form + いる.';
+
+  if (cls === 'honorific') {
+    const s = dropLastKana(base);
+    if (form === 'polite_present') return `- Honorific: ${s}い + ます (not ${s}ります)`;
+    if (form === 'polite_negative') return `- Honorific: ${s}い + ません (not ${s}りません)`;
+    if (form === 'polite_past') return `- Honorific: ${s}い + ました (not ${s}りました)`;
+    if (form === 'polite_past_negative') return `- Honorific: ${s}い + ませんでした (not ${s}りませんでした)`;
+    if (form === 'imperative') return `- Honorific imperative: ${s}い (not ${s}れ)`;
+  }
+
+  if (cls === 'ichidan') {
+    const s = dropLastKana(base);
+    if (form === 'polite_present') return `- Ichidan: ${s} + ます`;
+    if (form === 'polite_negative') return `- Ichidan: ${s} + ません`;
+    if (form === 'te') return `- Ichidan: ${s} + て`;
+    if (form === 'past') return `- Ichidan: ${s} + た`;
+    if (form === 'negative') return `- Ichidan: ${s} + ない`;
+    if (form === 'past_negative') return `- Ichidan: ${s} + なかった`;
+    if (form === 'want') return `- Ichidan: ${s} + たい`;
+    if (form === 'dont_want') return `- Ichidan: ${s} + たくない`;
+    if (form === 'want_past') return `- Ichidan: ${s} + たかった`;
+    if (form === 'dont_want_past') return `- Ichidan: ${s} + たくなかった`;
+    if (form === 'polite_past') return `- Ichidan: ${s} + ました`;
+    if (form === 'polite_past_negative') return `- Ichidan: ${s} + ませんでした`;
+    if (form === 'potential') return `- Ichidan: ${s} + られる`;
+    if (form === 'passive') return `- Ichidan: ${s} + られる (same as the potential)`;
+    if (form === 'causative') return `- Ichidan: ${s} + させる`;
+    if (form === 'causative_passive') return `- Ichidan: ${s} + させられる`;
+    if (form === 'volitional') return `- Ichidan: ${s} + よう`;
+    if (form === 'imperative') return `- Ichidan: ${s} + ろ`;
+    if (form === 'conditional_ba') return `- Ichidan: ${s} + れば`;
+  }
+
+  if (cls === 'godan' || cls === 'honorific') {
+    const baseStem = dropLastKana(base);
+    const i = iRow[end] ?? '';
+    const a = end === 'う' ? 'わ' : aRow[end] ?? '';
+    const te = isIku ? 'いって' : `${baseStem}${teSuffix[end] ?? ''}`;
+    const ta = isIku ? 'いった' : `${baseStem}${taSuffix[end] ?? ''}`;
+
+    if (form === 'polite_present') return `- Godan: ${baseStem}${i} + ます`;
+    if (form === 'polite_negative') return `- Godan: ${baseStem}${i} + ません`;
+    if (form === 'negative') return `- Godan: ${baseStem}${a} + ない (う→わない)`;
+    if (form === 'past_negative') return `- Godan: ${baseStem}${a} + なかった (う→わなかった)`;
+    if (form === 'te') return `- Godan te-form: ${isIku ? 'いく → いって (exception)' : `${end}→${teSuffix[end] ?? ''}`}`;
+    if (form === 'past') return `- Godan past: ${isIku ? 'いく → いった (exception)' : `${end}→${taSuffix[end] ?? ''}`}`;
+    if (form === 'want') return `- Godan want: ${baseStem}${i} + たい`;
+    if (form === 'dont_want') return `- Godan want (neg): ${baseStem}${i} + たくない`;
+    if (form === 'want_past') return `- Godan want (past): ${baseStem}${i} + たかった`;
+    if (form === 'dont_want_past') return `- Godan want (past neg): ${baseStem}${i} + たくなかった`;
+    if (form === 'polite_past') return `- Godan: ${baseStem}${i} + ました`;
+    if (form === 'polite_past_negative') return `- Godan: ${baseStem}${i} + ませんでした`;
+    if (form === 'potential') return `- Godan potential: e-row ${baseStem}${eRow[end] ?? ''} + る`;
+    if (form === 'passive') return `- Godan passive: a-row ${baseStem}${a} + れる (う→われる)`;
+    if (form === 'causative') return `- Godan causative: a-row ${baseStem}${a} + せる (う→わせる)`;
+    if (form === 'causative_passive') {
+      return end === 'す'
+        ? `- Godan causative-passive (…す): ${baseStem}さ + せられる`
+        : `- Godan causative-passive: a-row ${baseStem}${a} + される (short form of ${baseStem}${a}せられる)`;
+    }
+    if (form === 'volitional') return `- Godan volitional: o-row ${baseStem}${oRow[end] ?? ''} + う`;
+    if (form === 'imperative') return `- Godan imperative: e-row ${baseStem}${eRow[end] ?? ''}`;
+    if (form === 'conditional_ba') return `- Godan ba-conditional: e-row ${baseStem}${eRow[end] ?? ''} + ば`;
+    if (form === 'progressive') return `- Progressive: ${te} + いる`;
+    return '';
+  }
+
+  return '';
 };
 
 export const verbConjugationHintText = (form: VerbForm, baseKana: string, cls: VerbClass, answerKana?: string): string => {
@@ -112,18 +345,25 @@ export const verbConjugationHintText = (form: VerbForm, baseKana: string, cls: V
   const end = lastKana(base);
 
   const isSuru = base.endsWith('する');
-  const isKuru = base.endsWith('くる');
+  const isKuru = isKuruVerb(base);
   const isIku = base === 'いく';
-  const isAru = base === 'ある';
 
   const romaji = answerKana ? toRomaji(answerKana).trim() : '';
   const header = `Target: ${verbFormLabel(form)}`;
   const baseLine = base ? `Base (dictionary): ${base}` : '';
-  const classLine = isSuru ? 'Class: Irregular (…する)' : isKuru ? 'Class: Irregular (…くる)' : `Class: ${cls === 'ichidan' ? 'Ichidan (る-verb)' : 'Godan (う-verb)'} · last kana: ${end || '—'}`;
+  const classLine = isSuru
+    ? 'Class: Irregular (…する)'
+    : isKuru
+      ? 'Class: Irregular (…くる)'
+      : cls === 'honorific'
+        ? 'Class: Honorific (keigo る-verb)'
+        : `Class: ${cls === 'ichidan' ? 'Ichidan (る-verb)' : 'Godan (う-verb)'} · last kana: ${end || '—'}`;
   const romajiLine = romaji ? `Romaji: ${romaji}` : '';
 
   const iRow: Record<string, string> = { う: 'い', く: 'き', ぐ: 'ぎ', す: 'し', つ: 'ち', ぬ: 'に', ぶ: 'び', む: 'み', る: 'り' };
   const aRow: Record<string, string> = { う: 'わ', く: 'か', ぐ: 'が', す: 'さ', つ: 'た', ぬ: 'な', ぶ: 'ば', む: 'ま', る: 'ら' };
+  const eRow: Record<string, string> = { う: 'え', く: 'け', ぐ: 'げ', す: 'せ', つ: 'て', ぬ: 'ね', ぶ: 'べ', む: 'め', る: 'れ' };
+  const oRow: Record<string, string> = { う: 'お', く: 'こ', ぐ: 'ご', す: 'そ', つ: 'と', ぬ: 'の', ぶ: 'ぼ', む: 'も', る: 'ろ' };
   const teSuffix: Record<string, string> = { う: 'って', つ: 'って', る: 'って', む: 'んで', ぶ: 'んで', ぬ: 'んで', く: 'いて', ぐ: 'いで', す: 'して' };
   const taSuffix: Record<string, string> = { う: 'った', つ: 'った', る: 'った', む: 'んだ', ぶ: 'んだ', ぬ: 'んだ', く: 'いた', ぐ: 'いだ', す: 'した' };
 
@@ -132,95 +372,11 @@ export const verbConjugationHintText = (form: VerbForm, baseKana: string, cls: V
     if (isSuru) return base.slice(0, -2);
     if (isKuru) return base.slice(0, -2);
     if (cls === 'ichidan') return dropLastKana(base);
+    if (cls === 'honorific') return `${dropLastKana(base)}い`;
     return `${dropLastKana(base)}${iRow[end] ?? ''}`;
   })();
 
-  const quickRule = (() => {
-    if (!base) return '';
-
-    if (form === 'dictionary') return '- Dictionary form (as-is).';
-
-    if (isSuru) {
-      const p = base.slice(0, -2);
-      const map: Record<VerbForm, string> = {
-        dictionary: `${base}`,
-        polite_present: `${p}します`,
-        polite_negative: `${p}しません`,
-        te: `${p}して`,
-        progressive: `${p}している`,
-        past: `${p}した`,
-        negative: `${p}しない`,
-        past_negative: `${p}しなかった`,
-        want: `${p}したい`,
-        dont_want: `${p}したくない`,
-        want_past: `${p}したかった`,
-        dont_want_past: `${p}したくなかった`,
-      };
-      return `- …する: ${base} → ${map[form]}`;
-    }
-
-    if (isKuru) {
-      const p = base.slice(0, -2);
-      const map: Record<VerbForm, string> = {
-        dictionary: `${base}`,
-        polite_present: `${p}きます`,
-        polite_negative: `${p}きません`,
-        te: `${p}きて`,
-        progressive: `${p}きている`,
-        past: `${p}きた`,
-        negative: `${p}こない`,
-        past_negative: `${p}こなかった`,
-        want: `${p}きたい`,
-        dont_want: `${p}きたくない`,
-        want_past: `${p}きたかった`,
-        dont_want_past: `${p}きたくなかった`,
-      };
-      return `- …くる: ${base} → ${map[form]}`;
-    }
-
-    if (isAru && (form === 'negative' || form === 'past_negative')) {
-      return form === 'negative' ? '- ある (negative): ない' : '- ある (past negative): なかった';
-    }
-
-    if (form === 'progressive') return '- Progressive: te-form + いる.';
-
-    if (cls === 'ichidan') {
-      const s = dropLastKana(base);
-      if (form === 'polite_present') return `- Ichidan: ${s} + ます`;
-      if (form === 'polite_negative') return `- Ichidan: ${s} + ません`;
-      if (form === 'te') return `- Ichidan: ${s} + て`;
-      if (form === 'past') return `- Ichidan: ${s} + た`;
-      if (form === 'negative') return `- Ichidan: ${s} + ない`;
-      if (form === 'past_negative') return `- Ichidan: ${s} + なかった`;
-      if (form === 'want') return `- Ichidan: ${s} + たい`;
-      if (form === 'dont_want') return `- Ichidan: ${s} + たくない`;
-      if (form === 'want_past') return `- Ichidan: ${s} + たかった`;
-      if (form === 'dont_want_past') return `- Ichidan: ${s} + たくなかった`;
-    }
-
-    if (cls === 'godan') {
-      const baseStem = dropLastKana(base);
-      const i = iRow[end] ?? '';
-      const a = end === 'う' ? 'わ' : aRow[end] ?? '';
-      const te = isIku ? 'いって' : `${baseStem}${teSuffix[end] ?? ''}`;
-      const ta = isIku ? 'いった' : `${baseStem}${taSuffix[end] ?? ''}`;
-
-      if (form === 'polite_present') return `- Godan: ${baseStem}${i} + ます`;
-      if (form === 'polite_negative') return `- Godan: ${baseStem}${i} + ません`;
-      if (form === 'negative') return `- Godan: ${baseStem}${a} + ない (う→わない)`;
-      if (form === 'past_negative') return `- Godan: ${baseStem}${a} + なかった (う→わなかった)`;
-      if (form === 'te') return `- Godan te-form: ${isIku ? 'いく → いって (exception)' : `${end}→${teSuffix[end] ?? ''}`}`;
-      if (form === 'past') return `- Godan past: ${isIku ? 'いく → いった (exception)' : `${end}→${taSuffix[end] ?? ''}`}`;
-      if (form === 'want') return `- Godan want: ${baseStem}${i} + たい`;
-      if (form === 'dont_want') return `- Godan want (neg): ${baseStem}${i} + たくない`;
-      if (form === 'want_past') return `- Godan want (past): ${baseStem}${i} + たかった`;
-      if (form === 'dont_want_past') return `- Godan want (past neg): ${baseStem}${i} + たくなかった`;
-      if (form === 'progressive') return `- Progressive: ${te} + いる`;
-      return '';
-    }
-
-    return '';
-  })();
+  const quickRule = verbQuickRuleText(form, baseKana, cls);
 
   const endingRules = (() => {
     if (!base) return [] as string[];
@@ -228,12 +384,22 @@ export const verbConjugationHintText = (form: VerbForm, baseKana: string, cls: V
       return [
         `…する endings: します / しません / して / した / しない / しなかった`,
         `Want: したい / したくない / したかった / したくなかった`,
+        `Potential できる · passive される · causative させる · volitional しよう · imperative しろ · すれば / したら`,
       ];
     }
     if (isKuru) {
       return [
         `…くる endings: きます / きません / きて / きた / こない / こなかった`,
         `Want: きたい / きたくない / きたかった / きたくなかった`,
+        `Potential/passive こられる · causative こさせる · volitional こよう · imperative こい · くれば / きたら`,
+      ];
+    }
+    if (cls === 'honorific') {
+      const s = dropLastKana(base);
+      return [
+        `Honorific: like godan る, but ます and the command use ${s}い`,
+        `ます/ません/ました: ${s}います / ${s}いません / ${s}いました · command: ${s}い`,
+        `Everything else is regular godan: ${s}らない · ${s}って / ${s}った · ${s}れば`,
       ];
     }
     if (cls === 'ichidan') {
@@ -244,6 +410,7 @@ export const verbConjugationHintText = (form: VerbForm, baseKana: string, cls: V
         `ない/なかった: ${s}ない / ${s}なかった`,
         `ます/ません: ${s}ます / ${s}ません`,
         `たい-series: ${s}たい / ${s}たくない / ${s}たかった / ${s}たくなかった`,
+        `Potential/passive ${s}られる · causative ${s}させる · volitional ${s}よう · imperative ${s}ろ · ${s}れば / ${s}たら`,
       ];
     }
 
@@ -253,7 +420,7 @@ export const verbConjugationHintText = (form: VerbForm, baseKana: string, cls: V
     const te = isIku ? 'いって (いく exception)' : teSuffix[end] ?? '';
     const ta = isIku ? 'いった (いく exception)' : taSuffix[end] ?? '';
     return [
-      `Godan: ${end} → i-row ${i} (ます/たい) · a-row ${a} (ない)`,
+      `Godan: ${end} → i-row ${i} (ます/たい) · a-row ${a} (ない/れる/せる) · e-row ${eRow[end] ?? ''} (る/ば/command) · o-row ${oRow[end] ?? ''} (う)`,
       `て/た endings: ${end} → ${te} / ${ta}`,
       `Examples: ${base} → ${baseStem}${i}ます · ${baseStem}${a}ない`,
     ];
@@ -285,6 +452,11 @@ export const verbConjugationHintText = (form: VerbForm, baseKana: string, cls: V
     '- Desiderative negative: 〜たくない',
     '- Desiderative (past): 〜たかった',
     '- Desiderative past negative: 〜たくなかった',
+    '- Past indicative (polite): 〜ました · Past negative (polite): 〜ませんでした',
+    '- Potential: 〜られる/〜える · Passive: 〜られる/〜れる',
+    '- Causative: 〜させる/〜せる · Causative-passive: 〜させられる/〜される',
+    "- Volitional (let's): 〜よう/〜おう · Imperative: 〜ろ/〜え",
+    '- Conditionals: 〜ば (if) · 〜たら (when/if)',
   ]
     .filter((s) => (s ?? '').trim() !== '')
     .join('\n');
@@ -295,6 +467,7 @@ const dropLastKana = (s: string): string => (s ? s.slice(0, -1) : '');
 
 export const classifyVerb = (baseKana: string, baseKanji?: string): VerbClass => {
   const kana = baseKana.trim();
+  if (HONORIFIC_VERBS.includes(kana)) return 'honorific';
   if (kana === 'ある') return 'godan';
   if (kana === 'いく') return 'godan';
 
@@ -328,11 +501,23 @@ const conjugateGodan = (base: string, form: VerbForm): string => {
 
   const iRow: Record<string, string> = { う: 'い', く: 'き', ぐ: 'ぎ', す: 'し', つ: 'ち', ぬ: 'に', ぶ: 'び', む: 'み', る: 'り' };
   const aRow: Record<string, string> = { う: 'わ', く: 'か', ぐ: 'が', す: 'さ', つ: 'た', ぬ: 'な', ぶ: 'ば', む: 'ま', る: 'ら' };
+  const eRow: Record<string, string> = { う: 'え', く: 'け', ぐ: 'げ', す: 'せ', つ: 'て', ぬ: 'ね', ぶ: 'べ', む: 'め', る: 'れ' };
+  const oRow: Record<string, string> = { う: 'お', く: 'こ', ぐ: 'ご', す: 'そ', つ: 'と', ぬ: 'の', ぶ: 'ぼ', む: 'も', る: 'ろ' };
 
   if (form === 'polite_present') return `${stem}${iRow[end] ?? ''}ます`;
   if (form === 'polite_negative') return `${stem}${iRow[end] ?? ''}ません`;
+  if (form === 'polite_past') return `${stem}${iRow[end] ?? ''}ました`;
+  if (form === 'polite_past_negative') return `${stem}${iRow[end] ?? ''}ませんでした`;
   if (form === 'negative') return `${stem}${end === 'う' ? 'わ' : aRow[end] ?? ''}ない`;
   if (form === 'past_negative') return `${stem}${end === 'う' ? 'わ' : aRow[end] ?? ''}なかった`;
+  if (form === 'passive') return `${stem}${aRow[end] ?? ''}れる`;
+  if (form === 'causative') return `${stem}${aRow[end] ?? ''}せる`;
+  // The short a-row + される form, except where it would give さされる.
+  if (form === 'causative_passive') return end === 'す' ? `${stem}させられる` : `${stem}${aRow[end] ?? ''}される`;
+  if (form === 'potential') return `${stem}${eRow[end] ?? ''}る`;
+  if (form === 'imperative') return `${stem}${eRow[end] ?? ''}`;
+  if (form === 'conditional_ba') return `${stem}${eRow[end] ?? ''}ば`;
+  if (form === 'volitional') return `${stem}${oRow[end] ?? ''}う`;
 
   if (form === 'te' || form === 'past') {
     if (base === 'いく') return form === 'te' ? 'いって' : 'いった';
@@ -356,6 +541,8 @@ export const conjugateVerb = (base: string, baseKana: string, form: VerbForm, cl
     return `${te}いる`;
   }
 
+  if (form === 'conditional_tara') return `${conjugateVerb(b, baseKana, 'past', cls)}ら`;
+
   const kana = baseKana.trim();
   if (kana.endsWith('する')) {
     const prefix = b.endsWith('する') ? b.slice(0, -2) : b;
@@ -369,20 +556,39 @@ export const conjugateVerb = (base: string, baseKana: string, form: VerbForm, cl
     if (form === 'dont_want') return `${prefix}したくない`;
     if (form === 'want_past') return `${prefix}したかった`;
     if (form === 'dont_want_past') return `${prefix}したくなかった`;
+    if (form === 'polite_past') return `${prefix}しました`;
+    if (form === 'polite_past_negative') return `${prefix}しませんでした`;
+    if (form === 'potential') return `${prefix}できる`;
+    if (form === 'passive') return `${prefix}される`;
+    if (form === 'causative') return `${prefix}させる`;
+    if (form === 'causative_passive') return `${prefix}させられる`;
+    if (form === 'volitional') return `${prefix}しよう`;
+    if (form === 'imperative') return `${prefix}しろ`;
+    if (form === 'conditional_ba') return `${prefix}すれば`;
   }
 
-  if (kana.endsWith('くる')) {
+  if (isKuruVerb(kana, b)) {
     const prefix = b.endsWith('くる') || b.endsWith('来る') ? b.slice(0, -2) : b;
-    if (form === 'polite_present') return `${prefix}きます`;
-    if (form === 'polite_negative') return `${prefix}きません`;
-    if (form === 'te') return `${prefix}きて`;
-    if (form === 'past') return `${prefix}きた`;
-    if (form === 'negative') return `${prefix}こない`;
-    if (form === 'past_negative') return `${prefix}こなかった`;
-    if (form === 'want') return `${prefix}きたい`;
-    if (form === 'dont_want') return `${prefix}きたくない`;
-    if (form === 'want_past') return `${prefix}きたかった`;
-    if (form === 'dont_want_past') return `${prefix}きたくなかった`;
+    // 来 keeps its kanji and only the reading changes (来ない is こない), so the okurigana is the reading minus its first kana.
+    const k = (reading: string): string => (b.endsWith('来る') ? `${prefix}来${reading.slice(1)}` : `${prefix}${reading}`);
+    if (form === 'polite_present') return k('きます');
+    if (form === 'polite_negative') return k('きません');
+    if (form === 'te') return k('きて');
+    if (form === 'past') return k('きた');
+    if (form === 'negative') return k('こない');
+    if (form === 'past_negative') return k('こなかった');
+    if (form === 'want') return k('きたい');
+    if (form === 'dont_want') return k('きたくない');
+    if (form === 'want_past') return k('きたかった');
+    if (form === 'dont_want_past') return k('きたくなかった');
+    if (form === 'polite_past') return k('きました');
+    if (form === 'polite_past_negative') return k('きませんでした');
+    if (form === 'potential' || form === 'passive') return k('こられる');
+    if (form === 'causative') return k('こさせる');
+    if (form === 'causative_passive') return k('こさせられる');
+    if (form === 'volitional') return k('こよう');
+    if (form === 'imperative') return k('こい');
+    if (form === 'conditional_ba') return k('くれば');
   }
 
   if (form === 'want' || form === 'dont_want' || form === 'want_past' || form === 'dont_want_past') {
@@ -428,6 +634,17 @@ export const conjugateVerb = (base: string, baseKana: string, form: VerbForm, cl
     if (form === 'past') return b.replace(/る$/, 'った');
     if (form === 'negative') return 'ない';
     if (form === 'past_negative') return 'なかった';
+    if (form === 'polite_past') return b.replace(/る$/, 'りました');
+    if (form === 'polite_past_negative') return 'ありませんでした';
+  }
+
+  if (cls === 'honorific') {
+    const stem = dropLastKana(b);
+    if (form === 'polite_present') return `${stem}います`;
+    if (form === 'polite_negative') return `${stem}いません`;
+    if (form === 'polite_past') return `${stem}いました`;
+    if (form === 'polite_past_negative') return `${stem}いませんでした`;
+    if (form === 'imperative') return `${stem}い`;
   }
 
   if (cls === 'ichidan') {
@@ -438,12 +655,46 @@ export const conjugateVerb = (base: string, baseKana: string, form: VerbForm, cl
     if (form === 'past') return `${stem}た`;
     if (form === 'negative') return `${stem}ない`;
     if (form === 'past_negative') return `${stem}なかった`;
+    if (form === 'polite_past') return `${stem}ました`;
+    if (form === 'polite_past_negative') return `${stem}ませんでした`;
+    if (form === 'potential' || form === 'passive') return `${stem}られる`;
+    if (form === 'causative') return `${stem}させる`;
+    if (form === 'causative_passive') return `${stem}させられる`;
+    if (form === 'volitional') return `${stem}よう`;
+    if (form === 'imperative') return `${stem}ろ`;
+    if (form === 'conditional_ba') return `${stem}れば`;
     return b;
   }
 
   return conjugateGodan(b, form);
 };
 
+// `src` carries the dictionary-form meaning and examples; `source` is appended to the background (e.g. "Source: WaniKani L5.").
+export const makeVerbFormCard = (
+  deckId: string,
+  src: Pick<Card, 'prompt' | 'pos' | 'exampleSentences'>,
+  baseKana: string,
+  baseKanji: string | undefined,
+  form: VerbForm,
+  source?: string,
+): Card => {
+  const cls = classifyVerb(baseKana, baseKanji);
+  const answerKana = conjugateVerb(baseKana, baseKana, form, cls);
+  const answerKanji = baseKanji ? conjugateVerb(baseKanji, baseKana, form, cls) : undefined;
+  const examples = transformExamples(src.exampleSentences, baseKana, baseKanji, answerKana, answerKanji);
+
+  const fromDisp = baseKanji || baseKana;
+  const toDisp = answerKanji || answerKana;
+  const bg = `Conjugation: ${fromDisp} → ${toDisp} (${verbFormLabel(form)}).${source ? ` ${source}` : ''}`;
+
+  return {
+    ...makeCard(deckId, 'verb', src.prompt, answerKana, verbConjugationHintText(form, baseKana, cls, answerKana), bg, examples, answerKanji, src.pos),
+    verbBaseKana: baseKana,
+    verbBaseKanji: baseKanji,
+    verbForm: form,
+  };
+};
+
 export const transformExamples = (
   examples: ExampleSentence[] | undefined,
   fromKana: string,
@@ -478,10 +729,238 @@ export const transformExamples = (
   });
 };
 
+export type AdjectiveForm =
+  | 'plain'
+  | 'polite'
+  | 'negative'
+  | 'polite_negative'
+  | 'past'
+  | 'polite_past'
+  | 'past_negative'
+  | 'polite_past_negative'
+  | 'te'
+  | 'adverb';
+export type AdjectiveClass = 'i' | 'na';
+
+export const ADJECTIVE_FORMS: AdjectiveForm[] = [
+  'plain',
+  'polite',
+  'negative',
+  'polite_negative',
+  'past',
+  'polite_past',
+  'past_negative',
+  'polite_past_negative',
+  'te',
+  'adverb',
+];
+
+export const isAdjectiveForm = (form: string | undefined): form is AdjectiveForm => (ADJECTIVE_FORMS as string[]).includes(form ?? '');
+
+// Reads the class from a part-of-speech string ("i-adjective", "na-adjective / noun", WaniKani's "い adjective").
+export const classifyAdjective = (pos: string | undefined): AdjectiveClass | null => {
+  const p = (pos ?? '').toLowerCase();
+  if (!p.includes('adjective')) return null;
+  if (/\bna\b|な/.test(p)) return 'na';
+  if (/\bi\b|い/.test(p)) return 'i';
+  return null;
+};
+
+export const adjectiveFormLabel = (form: AdjectiveForm, cls: AdjectiveClass): string => {
+  const na = cls === 'na';
+  switch (form) {
+    case 'plain':
+      return na ? 'Present affirmative (plain) (〜だ)' : 'Present affirmative (plain)';
+    case 'polite':
+      return 'Present affirmative (polite) (〜です)';
+    case 'negative':
+      return `Present negative (plain) (${na ? '〜じゃない' : '〜くない'})`;
+    case 'polite_negative':
+      return `Present negative (polite) (${na ? '〜じゃないです' : '〜くないです'})`;
+    case 'past':
+      return `Past affirmative (plain) (${na ? '〜だった' : '〜かった'})`;
+    case 'polite_past':
+      return `Past affirmative (polite) (${na ? '〜でした' : '〜かったです'})`;
+    case 'past_negative':
+      return `Past negative (plain) (${na ? '〜じゃなかった' : '〜くなかった'})`;
+    case 'polite_past_negative':
+      return `Past negative (polite) (${na ? '〜じゃなかったです' : '〜くなかったです'})`;
+    case 'te':
+      return `Te-form (connective) (${na ? '〜で' : '〜くて'})`;
+    case 'adverb':
+      return `Adverbial (${na ? '〜に' : '〜く'})`;
+  }
+};
+
+// いい (and compounds like かっこいい) conjugates from the older よい.
+const adjectiveStem = (base: string): string => (base.endsWith('いい') ? `${base.slice(0, -2)}よ` : dropLastKana(base));
+
+// First entry is the card answer; the rest are equally correct variants (では for じゃ, ありません for ないです).
+export const adjectiveAnswerVariants = (base: string, form: AdjectiveForm, cls: AdjectiveClass): string[] => {
+  const b = base.trim();
+  if (!b) return [];
+
+  if (cls === 'na') {
+    switch (form) {
+      case 'plain':
+        return [`${b}だ`, b];
+      case 'polite':
+        return [`${b}です`];
+      case 'negative':
+        return [`${b}じゃない`, `${b}ではない`];
+      case 'polite_negative':
+        return [`${b}じゃないです`, `${b}ではないです`, `${b}じゃありません`, `${b}ではありません`];
+      case 'past':
+        return [`${b}だった`];
+      case 'polite_past':
+        return [`${b}でした`];
+      case 'past_negative':
+        return [`${b}じゃなかった`, `${b}ではなかった`];
+      case 'polite_past_negative':
+        return [`${b}じゃなかったです`, `${b}ではなかったです`, `${b}じゃありませんでした`, `${b}ではありませんでした`];
+      case 'te':
+        return [`${b}で`];
+      case 'adverb':
+        return [`${b}に`];
+    }
+  }
+
+  const s = adjectiveStem(b);
+  switch (form) {
+    case 'plain':
+      return [b];
+    case 'polite':
+      return [`${b}です`];
+    case 'negative':
+      return [`${s}くない`];
+    case 'polite_negative':
+      return [`${s}くないです`, `${s}くありません`];
+    case 'past':
+      return [`${s}かった`];
+    case 'polite_past':
+      return [`${s}かったです`];
+    case 'past_negative':
+      return [`${s}くなかった`];
+    case 'polite_past_negative':
+      return [`${s}くなかったです`, `${s}くありませんでした`];
+    case 'te':
+      return [`${s}くて`];
+    case 'adverb':
+      return [`${s}く`];
+  }
+};
+
+export const conjugateAdjective = (base: string, form: AdjectiveForm, cls: AdjectiveClass): string =>
+  adjectiveAnswerVariants(base, form, cls)[0] ?? base;
+
+export const adjectiveQuickRuleText = (form: AdjectiveForm, baseKana: string, cls: AdjectiveClass): string => {
+  const base = baseKana.trim();
+  const result = conjugateAdjective(base, form, cls);
+  if (cls === 'na') {
+    if (form === 'plain') return `- Add だ: ${base} → ${result}`;
+    if (form === 'polite') return `- Add です: ${base} → ${result}`;
+    if (form === 'te') return `- Add で: ${base} → ${result}`;
+    if (form === 'adverb') return `- Add に: ${base} → ${result}`;
+    return `- Attach the copula ending directly: ${base} → ${result}`;
+  }
+
+  const stem = adjectiveStem(base);
+  if (form === 'plain') return `- Dictionary form as-is: ${base}`;
+  if (form === 'polite') return `- Keep い and add です: ${base} → ${result}`;
+  const ending = result.slice(stem.length);
+  if (base.endsWith('いい')) return `- ${base} is irregular: stem ${stem} (from よい), then add ${ending}: ${result}`;
+  return `- Drop the final い → ${stem}, then add ${ending}: ${result}`;
+};
+
+export const adjectiveConjugationHintText = (
+  form: AdjectiveForm,
+  baseKana: string,
+  cls: AdjectiveClass,
+  answerKana?: string,
+): string => {
+  const base = baseKana.trim();
+  const romaji = answerKana ? toRomaji(answerKana).trim() : '';
+  const classLine =
+    cls === 'na'
+      ? 'Class: な-adjective'
+      : `Class: い-adjective${base.endsWith('いい') ? ' (irregular: いい → よ-)' : ''}`;
+
+  return [
+    `Target: ${adjectiveFormLabel(form, cls)}`,
+    base ? `Base (dictionary): ${base}` : '',
+    classLine,
+    romaji ? `Romaji: ${romaji}` : '',
+    '',
+    'Quick rule for this target:',
+    adjectiveQuickRuleText(form, base, cls),
+    '',
+    'Forms:',
+    cls === 'na'
+      ? '- Present: 〜だ / 〜です · negative: 〜じゃない / 〜じゃないです (では also fine)'
+      : '- Present: 〜い / 〜いです · negative: 〜くない / 〜くないです (〜くありません also fine)',
+    cls === 'na'
+      ? '- Past: 〜だった / 〜でした · negative: 〜じゃなかった / 〜じゃなかったです'
+      : '- Past: 〜かった / 〜かったです · negative: 〜くなかった / 〜くなかったです',
+    cls === 'na' ? '- Te-form: 〜で · adverbial: 〜に' : '- Te-form: 〜くて · adverbial: 〜く',
+    '- いい is irregular: よくない · よかった · よくなかった · よくて · よく',
+  ]
+    .filter((s) => (s ?? '').trim() !== '')
+    .join('\n');
+};
+
+// Only predicate uses (word at the end of the sentence, plus だ/です for な-adjectives) are rewritten;
+// te/adverbial forms would leave the sentence ungrammatical, so those cards get no examples.
+const adjectiveExamples = (
+  examples: ExampleSentence[] | undefined,
+  bases: Array<[from: string, to: string]>,
+  cls: AdjectiveClass,
+  form: AdjectiveForm,
+): ExampleSentence[] | undefined => {
+  if (!examples?.length || form === 'te' || form === 'adverb') return undefined;
+  const copulas = cls === 'na' ? ['です', 'だ'] : [''];
+  return examples.map((ex) => {
+    for (const [from, to] of bases) {
+      for (const copula of copulas) {
+        const m = ex.ja.match(new RegExp(`${from}${copula}([。！？!?]*)$`));
+        if (m && m.index !== undefined) return { ...ex, ja: `${ex.ja.slice(0, m.index)}${to}${m[1] ?? ''}` };
+      }
+    }
+    return ex;
+  });
+};
+
+// Callers check classifyAdjective(src.pos) first; `source` is appended to the background like makeVerbFormCard.
+export const makeAdjectiveFormCard = (
+  deckId: string,
+  src: Pick<Card, 'prompt' | 'pos' | 'exampleSentences'>,
+  baseKana: string,
+  baseKanji: string | undefined,
+  form: AdjectiveForm,
+  source?: string,
+): Card => {
+  const cls = classifyAdjective(src.pos) ?? (baseKana.endsWith('い') ? 'i' : 'na');
+  const [answerKana, ...kanaAlternatives] = adjectiveAnswerVariants(baseKana, form, cls);
+  const [answerKanji, ...kanjiAlternatives] = baseKanji ? adjectiveAnswerVariants(baseKanji, form, cls) : [];
+  const bases: Array<[string, string]> = answerKanji && baseKanji ? [[baseKanji, answerKanji], [baseKana, answerKana]] : [[baseKana, answerKana]];
+  const examples = adjectiveExamples(src.exampleSentences, bases, cls, form);
+  const alternatives = [...kanaAlternatives, ...kanjiAlternatives];
+
+  const bg = `Conjugation: ${baseKanji || baseKana} → ${answerKanji || answerKana} (${adjectiveFormLabel(form, cls)}).${source ? ` ${source}` : ''}`;
+
+  return {
+    ...makeCard(deckId, 'adjective', src.prompt, answerKana, adjectiveConjugationHintText(form, baseKana, cls, answerKana), bg, examples, answerKanji, src.pos),
+    alternatives: alternatives.length ? alternatives : undefined,
+    adjectiveBaseKana: baseKana,
+    adjectiveBaseKanji: baseKanji,
+    adjectiveForm: form,
+  };
+};
+
 export const makeSeedState = (): AppState => {
   const vocab = makeDeck('Common Vocab (Non-WK)', 'English → Japanese (kana)', 'en-ja');
   const vocabJaEn = makeDeck('Common Vocab (Non-WK) — JP→EN', 'Japanese → English (type meaning)', 'ja-en');
   const verbs = makeDeck('Verb Conjugation', 'English cue → Japanese conjugation (kana)', 'en-ja');
+  const adjectives = makeDeck('Adjective Conjugation', 'English cue → Japanese conjugation (kana)', 'en-ja');
   const phrasesSentences = makeDeck('Phrases & Sentences', 'English → Japanese (kana) — phrases + sentence writing', 'en-ja');
   const sentences = phrasesSentences;
   const phrases = phrasesSentences;
@@ -491,6 +970,7 @@ export const makeSeedState = (): AppState => {
     [vocab.id]: vocab,
     [vocabJaEn.id]: vocabJaEn,
     [verbs.id]: verbs,
+    [adjectives.id]: adjectives,
     [katakana.id]: katakana,
     [phrasesSentences.id]: phrasesSentences,
   };
@@ -1331,6 +1811,11 @@ export const makeSeedState = (): AppState => {
   add(makeCard(vocab.id, 'vocab', 'ski patrol', 'すきーぱとろーる', 'sukii patorooru', undefined, [{ ja: 'すきーぱとろーるをよんでください。' }], 'スキーパトロール', 'noun'));
 
   add(makeCard(vocab.id, 'vocab', 'to go', 'いく', 'iku', undefined, [{ ja: 'みせにいく。' }, { ja: 'いまいく。' }, { ja: 'あしたいく。' }], '行く', 'verb (intransitive)'));
+  add(makeCard(vocab.id, 'vocab', 'to give (to me); to kindly do (honorific)', 'くださる', 'kudasaru', undefined, [{ ja: 'せんせいがほんをくださる。' }], '下さる', 'verb (honorific)'));
+  add(makeCard(vocab.id, 'vocab', 'to come; to go; to be (honorific)', 'いらっしゃる', 'irassharu', undefined, [{ ja: 'せんせいがいらっしゃる。' }], undefined, 'verb (honorific)'));
+  add(makeCard(vocab.id, 'vocab', 'to say (honorific)', 'おっしゃる', 'ossharu', undefined, [{ ja: 'せんせいがそうおっしゃる。' }], undefined, 'verb (honorific)'));
+  add(makeCard(vocab.id, 'vocab', 'to do (honorific)', 'なさる', 'nasaru', undefined, [{ ja: 'なにをなさる？' }], undefined, 'verb (honorific)'));
+  add(makeCard(vocab.id, 'vocab', 'to be; to exist (very polite)', 'ござる', 'gozaru', undefined, undefined, undefined, 'verb (polite)'));
   add(
     makeCard(
       vocab.id,
@@ -1568,49 +2053,23 @@ export const makeSeedState = (): AppState => {
 
     const baseKana = src.answer.trim();
     const baseKanji = src.kanji?.trim();
-    const cls = classifyVerb(baseKana, baseKanji);
-
-    const forms: VerbForm[] = [
-      'dictionary',
-      'polite_present',
-      'polite_negative',
-      'te',
-      'progressive',
-      'past',
-      'negative',
-      'past_negative',
-      'want',
-      'dont_want',
-      'want_past',
-      'dont_want_past',
-    ];
-    for (const form of forms) {
-      const answerKana = conjugateVerb(baseKana, baseKana, form, cls);
-      const answerKanji = baseKanji ? conjugateVerb(baseKanji, baseKana, form, cls) : undefined;
-      const examples = transformExamples(src.exampleSentences, baseKana, baseKanji, answerKana, answerKanji);
-
-      const fromDisp = baseKanji || baseKana;
-      const toDisp = answerKanji || answerKana;
-      const bg = `Conjugation: ${fromDisp} → ${toDisp} (${verbFormLabel(form)}).`;
-
-      const c = makeCard(
-        verbs.id,
-        'verb',
-        src.prompt,
-        answerKana,
-        verbConjugationHintText(form, baseKana, cls, answerKana),
-        bg,
-        examples,
-        answerKanji,
-        src.pos,
-      );
-
-      add({
-        ...c,
-        verbBaseKana: baseKana,
-        verbBaseKanji: baseKanji,
-        verbForm: form,
-      });
+
+    for (const form of verbFormsForBase(baseKana)) {
+      add(makeVerbFormCard(verbs.id, src, baseKana, baseKanji, form));
+    }
+  }
+
+  const addedAdjectiveKeys = new Set<string>();
+  for (const srcId of decks[vocab.id].cardIds) {
+    const src = cards[srcId];
+    if (!src || src.type !== 'vocab' || !classifyAdjective(src.pos)) continue;
+
+    const key = `${src.prompt.trim()}||${src.answer.trim()}`;
+    if (addedAdjectiveKeys.has(key)) continue;
+    addedAdjectiveKeys.add(key);
+
+    for (const form of ADJECTIVE_FORMS) {
+      add(makeAdjectiveFormCard(adjectives.id, src, src.answer.trim(), src.kanji?.trim(), form));
     }
   }
 
@@ -2272,5 +2731,6 @@ export const makeSeedState = (): AppState => {
     decks,
     cards,
     srs: {},
+    verbFormBackfill: VERB_FORM_BACKFILL_VERSION,
   };
 };
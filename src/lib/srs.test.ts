@@ -0,0 +1,321 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyFsrs,
+  applyReview,
+  applySm2,
+  defaultSrs,
+  fsrsMemoryFromHistory,
+  fuzzRange,
+  historyFromReviewLog,
+  isLeechLapse,
+  leechActionForReview,
+  previewReviewIntervals,
+  spreadIntervalDays,
+} from './srs';
+import type { CardSrs, Deck, ReviewLogEntry } from './models';
+
+describe('fuzzRange', () => {
+  it('leaves short intervals alone', () => {
+    expect(fuzzRange(1)).toEqual([1, 1]);
+    expect(fuzzRange(2)).toEqual([2, 2]);
+  });
+
+  it('widens with the interval', () => {
+    expect(fuzzRange(10)).toEqual([8, 12]);
+    const [lo, hi] = fuzzRange(100);
+    expect(hi - lo).toBeGreaterThan(8);
+  });
+});
+
+describe('spreadIntervalDays', () => {
+  it('is deterministic for a given seed', () => {
+    for (const seed of [1, 42, 123456]) {
+      expect(spreadIntervalDays(30, { fuzz: true }, seed)).toBe(spreadIntervalDays(30, { fuzz: true }, seed));
+    }
+  });
+
+  it('stays inside the fuzz range and uses more than one day across seeds', () => {
+    const [lo, hi] = fuzzRange(30);
+    const seen = new Set<number>();
+    for (let seed = 0; seed < 200; seed += 1) {
+      const d = spreadIntervalDays(30, { fuzz: true }, seed);
+      expect(d).toBeGreaterThanOrEqual(lo);
+      expect(d).toBeLessThanOrEqual(hi);
+      seen.add(d);
+    }
+    expect(seen.size).toBeGreaterThan(1);
+  });
+
+  it('returns the interval unchanged without fuzz or load balancing', () => {
+    expect(spreadIntervalDays(30, { fuzz: false }, 7)).toBe(30);
+  });
+
+  it('picks the lightest day in the window', () => {
+    const dueCountByDay = { 8: 5, 9: 5, 10: 4, 11: 1, 12: 5 };
+    for (const seed of [1, 2, 3]) expect(spreadIntervalDays(10, { fuzz: true, dueCountByDay }, seed)).toBe(11);
+  });
+
+  it('breaks ties toward the scheduled interval when fuzz is off', () => {
+    expect(spreadIntervalDays(10, { fuzz: false, dueCountByDay: { 8: 0, 9: 3, 10: 0, 11: 3, 12: 0 } }, 1)).toBe(10);
+  });
+
+  it('breaks ties among the lightest days by seed when fuzz is on', () => {
+    const dueCountByDay = { 8: 0, 9: 3, 10: 3, 11: 3, 12: 0 };
+    const picks = new Set<number>();
+    for (let seed = 0; seed < 50; seed += 1) picks.add(spreadIntervalDays(10, { fuzz: true, dueCountByDay }, seed));
+    expect([...picks].sort((a, b) => a - b)).toEqual([8, 12]);
+  });
+});
+
+describe('applyReview fuzz', () => {
+  const now = Date.UTC(2026, 0, 1);
+  const mature = { ...defaultSrs('card_1', now), repetitions: 5, intervalDays: 20, easeFactor: 2.5, lastReviewed: now - 20 * 86400000 };
+
+  it('gives the same due date for the same card history', () => {
+    const a = applyReview(mature, { correct: true, grade: 'good' }, now);
+    const b = applyReview(mature, { correct: true, grade: 'good' }, now);
+    expect(a.due).toBe(b.due);
+  });
+
+  it('honours an explicit seed', () => {
+    const a = applyReview(mature, { correct: true, grade: 'good' }, now, { seed: 9 });
+    const b = applyReview(mature, { correct: true, grade: 'good' }, now, { seed: 9 });
+    expect(a.intervalDays).toBe(b.intervalDays);
+  });
+});
+
+describe('historyFromReviewLog', () => {
+  const entry = (ts: number, cardId: string, correct: boolean, lapse?: boolean): ReviewLogEntry => ({
+    ts,
+    cardId,
+    deckId: 'deck',
+    typed: correct ? 'ねこ' : 'ねご',
+    correct,
+    grade: correct ? 'good' : 'again',
+    prevIntervalDays: 3,
+    nextIntervalDays: correct ? 7 : 1,
+    nextDue: ts,
+    easeFactor: 2.5,
+    responseMs: 1000,
+    lapse,
+  });
+
+  it('counts reviews, correct answers and lapses per card', () => {
+    const history = historyFromReviewLog([entry(3, 'a', false, true), entry(1, 'a', true), entry(2, 'b', true), entry(4, 'a', true)]);
+    expect(history.a).toMatchObject({ reviews: 3, correct: 2, lapsedAt: [3] });
+    expect(history.a.recent.map((e) => e.ts)).toEqual([4, 3, 1]);
+    expect(history.b).toMatchObject({ reviews: 1, correct: 1, lapsedAt: [] });
+  });
+
+  it('keeps only the most recent answers', () => {
+    const entries = Array.from({ length: 8 }, (_, i) => entry(i, 'a', true));
+    expect(historyFromReviewLog(entries, 3).a.recent.map((e) => e.ts)).toEqual([7, 6, 5]);
+  });
+});
+
+describe('applyFsrs', () => {
+  const now = Date.UTC(2026, 0, 1);
+  const DAY = 86400000;
+  const reviewed = { ...defaultSrs('card_1', now), repetitions: 3, lastReviewed: now - 10 * DAY, fsrs: { stability: 10, difficulty: 5 } };
+
+  it('starts a new card from the initial stability and difficulty for each grade', () => {
+    const fresh = defaultSrs('card_1', now);
+    const memory = (grade: 'again' | 'hard' | 'good' | 'easy') => applyFsrs(fresh, { correct: grade !== 'again', grade }, now).fsrs!;
+    expect(memory('again')).toEqual({ stability: 0.4, difficulty: expect.closeTo(6.81, 5) });
+    expect(memory('hard')).toEqual({ stability: 0.6, difficulty: expect.closeTo(5.87, 5) });
+    expect(memory('good')).toEqual({ stability: 2.4, difficulty: expect.closeTo(4.93, 5) });
+    expect(memory('easy')).toEqual({ stability: 5.8, difficulty: expect.closeTo(3.99, 5) });
+  });
+
+  it('grows stability with the grade and lowers it on a lapse', () => {
+    const next = (grade: 'again' | 'hard' | 'good' | 'easy') => applyFsrs(reviewed, { correct: grade !== 'again', grade }, now);
+
+    const again = next('again');
+    expect(again.fsrs!.stability).toBeLessThan(10);
+    expect(again.lapses).toBe(1);
+    expect(again.repetitions).toBe(0);
+
+    const [hard, good, easy] = (['hard', 'good', 'easy'] as const).map((g) => next(g).fsrs!);
+    expect(hard.stability).toBeGreaterThan(10);
+    expect(good.stability).toBeGreaterThan(hard.stability);
+    expect(easy.stability).toBeGreaterThan(good.stability);
+    expect(next('good').intervalDays).toBeGreaterThan(10);
+  });
+
+  it('raises difficulty on Again and Hard and lowers it on Easy', () => {
+    const difficulty = (grade: 'again' | 'hard' | 'good' | 'easy') => applyFsrs(reviewed, { correct: grade !== 'again', grade }, now).fsrs!.difficulty;
+    expect(difficulty('again')).toBeGreaterThan(difficulty('hard'));
+    expect(difficulty('hard')).toBeGreaterThan(5);
+    expect(difficulty('good')).toBeCloseTo(5, 1);
+    expect(difficulty('easy')).toBeLessThan(5);
+  });
+});
+
+describe('fsrsMemoryFromHistory', () => {
+  const now = Date.UTC(2026, 0, 1);
+
+  it('has nothing to derive for a new card', () => {
+    expect(fsrsMemoryFromHistory(defaultSrs('card_1', now))).toBeUndefined();
+  });
+
+  it('turns an SM-2 interval and ease into a starting stability and difficulty', () => {
+    const sm2 = { ...defaultSrs('card_1', now), repetitions: 4, intervalDays: 20, easeFactor: 2.5, lastReviewed: now - 20 * 86400000 };
+    const memory = fsrsMemoryFromHistory(sm2)!;
+    expect(memory.stability).toBe(20);
+    expect(memory.difficulty).toBeGreaterThan(1);
+    expect(memory.difficulty).toBeLessThan(5);
+
+    const struggling = fsrsMemoryFromHistory({ ...sm2, easeFactor: 1.3, lapses: 3 })!;
+    expect(struggling.difficulty).toBeGreaterThan(memory.difficulty);
+  });
+
+  it('lets a deck switched to FSRS keep the spacing SM-2 built up', () => {
+    const sm2 = { ...defaultSrs('card_1', now), repetitions: 4, intervalDays: 20, easeFactor: 2.5, lastReviewed: now - 20 * 86400000 };
+    const next = applyFsrs(sm2, { correct: true, grade: 'good' }, now);
+    expect(next.fsrs!.stability).toBeGreaterThan(20);
+    expect(next.intervalDays).toBeGreaterThan(20);
+  });
+});
+
+describe('applySm2 grades', () => {
+  const now = Date.UTC(2026, 0, 1);
+  const mature = { ...defaultSrs('card_1', now), repetitions: 3, intervalDays: 10, easeFactor: 2.5, lastReviewed: now - 10 * 86400000 };
+  const next = (grade: 'again' | 'hard' | 'good' | 'easy') => applySm2(mature, { correct: grade !== 'again', grade }, now);
+
+  it('gives longer intervals for better grades', () => {
+    expect(next('again').intervalDays).toBe(1);
+    expect(next('hard').intervalDays).toBe(12);
+    expect(next('good').intervalDays).toBe(25);
+    expect(next('easy').intervalDays).toBe(33);
+  });
+
+  it('lowers ease on Hard, keeps it on Good and raises it on Easy', () => {
+    expect(next('hard').easeFactor).toBeCloseTo(2.36);
+    expect(next('good').easeFactor).toBeCloseTo(2.5);
+    expect(next('easy').easeFactor).toBeCloseTo(2.6);
+  });
+
+  it('counts Again as a lapse and restarts the repetitions', () => {
+    expect(next('again')).toMatchObject({ lapses: 1, repetitions: 0, easeFactor: 2.5 });
+  });
+
+  it('uses grade-specific first and second intervals', () => {
+    const fresh = defaultSrs('card_1', now);
+    expect(applySm2(fresh, { correct: true, grade: 'good' }, now).intervalDays).toBe(1);
+    expect(applySm2(fresh, { correct: true, grade: 'easy' }, now).intervalDays).toBe(4);
+    const second = { ...fresh, repetitions: 1, intervalDays: 1, lastReviewed: now - 86400000 };
+    expect(applySm2(second, { correct: true, grade: 'hard' }, now).intervalDays).toBe(4);
+    expect(applySm2(second, { correct: true, grade: 'good' }, now).intervalDays).toBe(6);
+    expect(applySm2(second, { correct: true, grade: 'easy' }, now).intervalDays).toBe(8);
+  });
+});
+
+describe('previewReviewIntervals', () => {
+  const now = Date.UTC(2026, 0, 1);
+  const mature = { ...defaultSrs('card_1', now), repetitions: 3, intervalDays: 10, easeFactor: 2.5, lastReviewed: now - 10 * 86400000 };
+
+  it('shows increasing intervals from Again to Easy', () => {
+    for (const scheduler of ['sm2', 'fsrs'] as const) {
+      const preview = previewReviewIntervals(mature, now, { scheduler });
+      expect(preview.again).toBeLessThan(preview.hard);
+      expect(preview.hard).toBeLessThan(preview.good);
+      expect(preview.good).toBeLessThan(preview.easy);
+    }
+  });
+
+  it('matches what answering with each grade schedules', () => {
+    const preview = previewReviewIntervals(mature, now, { fuzz: true });
+    for (const grade of ['again', 'hard', 'good', 'easy'] as const) {
+      expect(applyReview(mature, { correct: grade !== 'again', grade }, now, { fuzz: true }).due - now).toBe(preview[grade]);
+    }
+  });
+});
+
+describe('learning and relearning steps', () => {
+  const now = Date.UTC(2026, 0, 1);
+  const MINUTE = 60000;
+  const DAY = 86400000;
+  const options = { fuzz: false };
+  const answer = (prev: CardSrs, grade: 'again' | 'hard' | 'good' | 'easy', at = now) =>
+    applyReview(prev, { correct: grade !== 'again', grade }, at, options);
+
+  it('moves a new card through the learning steps and graduates it at one day', () => {
+    const first = answer(defaultSrs('card_1', now), 'good');
+    expect(first).toMatchObject({ phase: 'learning', learningStep: 1, due: now + 10 * MINUTE });
+
+    const graduated = answer(first, 'good', now + 10 * MINUTE);
+    expect(graduated.phase).toBeUndefined();
+    expect(graduated.learningStep).toBeUndefined();
+    expect(graduated.intervalDays).toBe(1);
+    expect(graduated.repetitions).toBe(1);
+  });
+
+  it('sends Again back to the first step', () => {
+    const first = answer(defaultSrs('card_1', now), 'good');
+    expect(answer(first, 'again', now + 10 * MINUTE)).toMatchObject({ phase: 'learning', learningStep: 0, due: now + 11 * MINUTE });
+  });
+
+  it('waits between the first two steps on Hard', () => {
+    expect(answer(defaultSrs('card_1', now), 'hard')).toMatchObject({ phase: 'learning', learningStep: 0, due: now + 5.5 * MINUTE });
+  });
+
+  it('graduates early on Easy', () => {
+    const easy = answer(defaultSrs('card_1', now), 'easy');
+    expect(easy.phase).toBeUndefined();
+    expect(easy.intervalDays).toBe(4);
+  });
+
+  it('puts a lapsed review card into relearning and brings it back at the lapse interval', () => {
+    const mature = { ...defaultSrs('card_1', now), repetitions: 3, intervalDays: 10, easeFactor: 2.5, lastReviewed: now - 10 * DAY };
+    const lapsed = answer(mature, 'again');
+    expect(lapsed).toMatchObject({ phase: 'relearning', learningStep: 0, lapses: 1, due: now + 10 * MINUTE });
+
+    const relearned = answer(lapsed, 'good', now + 10 * MINUTE);
+    expect(relearned.phase).toBeUndefined();
+    expect(relearned.due).toBe(now + 10 * MINUTE + DAY);
+  });
+
+  it('skips the steps when a deck has none', () => {
+    const graduated = applyReview(defaultSrs('card_1', now), { correct: true, grade: 'good' }, now, { ...options, learningSteps: [] });
+    expect(graduated.phase).toBeUndefined();
+    expect(graduated.intervalDays).toBe(1);
+  });
+});
+
+describe('isLeechLapse', () => {
+  it('fires when lapses reach the threshold, then every half-threshold', () => {
+    const fired = Array.from({ length: 20 }, (_, i) => i + 1).filter((lapses) => isLeechLapse(lapses, 8));
+    expect(fired).toEqual([8, 12, 16, 20]);
+  });
+
+  it('rounds the repeat interval up for odd thresholds', () => {
+    const fired = Array.from({ length: 12 }, (_, i) => i + 1).filter((lapses) => isLeechLapse(lapses, 5));
+    expect(fired).toEqual([5, 8, 11]);
+  });
+
+  it('fires on every lapse from a threshold of one and never when disabled', () => {
+    expect([1, 2, 3].every((lapses) => isLeechLapse(lapses, 1))).toBe(true);
+    expect(isLeechLapse(8, 0)).toBe(false);
+  });
+});
+
+describe('leechActionForReview', () => {
+  const now = Date.UTC(2026, 0, 1);
+  const prev = { ...defaultSrs('card_1', now), repetitions: 3, intervalDays: 10, lapses: 7, lastReviewed: now - 10 * 86400000 };
+  const lapsed = { ...prev, lapses: 8, repetitions: 0, intervalDays: 1 };
+  const deck = (patch: Partial<Deck>): Deck => ({ id: 'deck', name: 'Deck', cardIds: [], ...patch });
+
+  it('suspends by default once the threshold is reached', () => {
+    expect(leechActionForReview(prev, lapsed, undefined)).toBe('suspend');
+    expect(leechActionForReview(prev, lapsed, deck({}))).toBe('suspend');
+  });
+
+  it("uses the deck's tag action and threshold", () => {
+    expect(leechActionForReview(prev, lapsed, deck({ leechAction: 'tag' }))).toBe('tag');
+    expect(leechActionForReview(prev, lapsed, deck({ leechThreshold: 10 }))).toBeNull();
+  });
+
+  it('ignores answers that did not lapse', () => {
+    expect(leechActionForReview(lapsed, { ...lapsed, repetitions: 1 }, deck({}))).toBeNull();
+  });
+});
@@ -1,9 +1,16 @@
-import type { CardSrs } from './models';
+import type { CardId, CardSrs, Deck, FsrsMemory, LeechAction, ReviewGrade, ReviewLogEntry, SchedulerKind } from './models';
+
+export type { ReviewGrade };
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
 
 export type ReviewResult = {
   correct: boolean;
+  grade?: ReviewGrade;
 };
 
+const gradeOf = (result: ReviewResult): ReviewGrade => result.grade ?? (result.correct ? 'good' : 'again');
+
 export const defaultSrs = (cardId: string, now: number): CardSrs => ({
   cardId,
   due: now,
@@ -14,10 +21,17 @@ export const defaultSrs = (cardId: string, now: number): CardSrs => ({
   lastReviewed: undefined,
 });
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 const clamp = (n: number, min: number, max: number) => Math.max(min, Math.min(max, n));
 
+const SM2_QUALITY: Record<ReviewGrade, number> = { again: 2, hard: 3, good: 4, easy: 5 };
+const SM2_HARD_FACTOR = 1.2;
+const SM2_EASY_BONUS = 1.3;
+
 export const applySm2 = (prev: CardSrs, result: ReviewResult, now: number): CardSrs => {
-  const quality = result.correct ? 4 : 2;
+  const grade = gradeOf(result);
+  const quality = SM2_QUALITY[grade];
 
   let easeFactor = prev.easeFactor;
   let repetitions = prev.repetitions;
@@ -31,15 +45,17 @@ export const applySm2 = (prev: CardSrs, result: ReviewResult, now: number): Card
   } else {
     repetitions += 1;
 
-    if (repetitions === 1) intervalDays = 1;
-    else if (repetitions === 2) intervalDays = 6;
+    if (repetitions === 1) intervalDays = grade === 'easy' ? 4 : 1;
+    else if (repetitions === 2) intervalDays = grade === 'hard' ? 4 : grade === 'easy' ? 8 : 6;
+    else if (grade === 'hard') intervalDays = Math.max(intervalDays + 1, Math.round(intervalDays * SM2_HARD_FACTOR));
+    else if (grade === 'easy') intervalDays = Math.round(intervalDays * easeFactor * SM2_EASY_BONUS);
     else intervalDays = Math.round(intervalDays * easeFactor);
 
     easeFactor = easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
     easeFactor = clamp(easeFactor, 1.3, 3.0);
   }
 
-  const due = now + intervalDays * 24 * 60 * 60 * 1000;
+  const due = now + intervalDays * DAY_MS;
 
   return {
     ...prev,
@@ -49,5 +65,302 @@ export const applySm2 = (prev: CardSrs, result: ReviewResult, now: number): Card
     lapses,
     due,
     lastReviewed: now,
+    // SM-2 owns the schedule now; a later switch back to FSRS re-derives memory from this history.
+    fsrs: undefined,
+  };
+};
+
+// FSRS (v4) default weights. Ratings: 1 = again, 2 = hard, 3 = good, 4 = easy.
+const FSRS_RATING: Record<ReviewGrade, number> = { again: 1, hard: 2, good: 3, easy: 4 };
+const FSRS_WEIGHTS = [0.4, 0.6, 2.4, 5.8, 4.93, 0.94, 0.86, 0.01, 1.49, 0.14, 0.94, 2.18, 0.05, 0.34, 1.26, 0.29, 2.61];
+const FSRS_DESIRED_RETENTION = 0.9;
+const FSRS_MAX_INTERVAL_DAYS = 36500;
+
+export const fsrsRetrievability = (elapsedDays: number, stability: number): number => {
+  if (stability <= 0) return 0;
+  return Math.pow(1 + elapsedDays / (9 * stability), -1);
+};
+
+const fsrsIntervalDays = (stability: number): number => {
+  const days = 9 * stability * (1 / FSRS_DESIRED_RETENTION - 1);
+  return clamp(Math.round(days), 1, FSRS_MAX_INTERVAL_DAYS);
+};
+
+const fsrsInitialDifficulty = (rating: number): number => {
+  const w = FSRS_WEIGHTS;
+  return clamp(w[4] - (rating - 3) * w[5], 1, 10);
+};
+
+const fsrsNextDifficulty = (difficulty: number, rating: number): number => {
+  const w = FSRS_WEIGHTS;
+  const next = difficulty - w[6] * (rating - 3);
+  const reverted = w[7] * fsrsInitialDifficulty(3) + (1 - w[7]) * next;
+  return clamp(reverted, 1, 10);
+};
+
+const fsrsRecallStability = (memory: FsrsMemory, retrievability: number, rating: number): number => {
+  const w = FSRS_WEIGHTS;
+  const hardPenalty = rating === 2 ? w[15] : 1;
+  const easyBonus = rating === 4 ? w[16] : 1;
+  const growth =
+    Math.exp(w[8]) *
+    (11 - memory.difficulty) *
+    Math.pow(memory.stability, -w[9]) *
+    (Math.exp(w[10] * (1 - retrievability)) - 1) *
+    hardPenalty *
+    easyBonus;
+  return memory.stability * (growth + 1);
+};
+
+const fsrsForgetStability = (memory: FsrsMemory, retrievability: number): number => {
+  const w = FSRS_WEIGHTS;
+  const next =
+    w[11] *
+    Math.pow(memory.difficulty, -w[12]) *
+    (Math.pow(memory.stability + 1, w[13]) - 1) *
+    Math.exp(w[14] * (1 - retrievability));
+  return Math.min(next, memory.stability);
+};
+
+// Starting memory for a card that SM-2 has scheduled so far: interval stands in for stability, ease/lapses for difficulty.
+export const fsrsMemoryFromHistory = (srs: CardSrs): FsrsMemory | undefined => {
+  if (!srs.lastReviewed && srs.repetitions === 0 && srs.lapses === 0) return undefined;
+
+  const stability = Math.max(srs.intervalDays, FSRS_WEIGHTS[0]);
+  const easeDifficulty = 10 - ((clamp(srs.easeFactor, 1.3, 3.0) - 1.3) / 1.7) * 9;
+  const difficulty = clamp(easeDifficulty + srs.lapses * 0.5, 1, 10);
+  return { stability, difficulty };
+};
+
+export const applyFsrs = (prev: CardSrs, result: ReviewResult, now: number): CardSrs => {
+  const rating = FSRS_RATING[gradeOf(result)];
+  const memory = prev.fsrs ?? fsrsMemoryFromHistory(prev);
+
+  let next: FsrsMemory;
+  if (!memory) {
+    next = { stability: FSRS_WEIGHTS[rating - 1], difficulty: fsrsInitialDifficulty(rating) };
+  } else {
+    const elapsedDays = prev.lastReviewed ? Math.max(0, (now - prev.lastReviewed) / DAY_MS) : 0;
+    const r = fsrsRetrievability(elapsedDays, memory.stability);
+    next = {
+      difficulty: fsrsNextDifficulty(memory.difficulty, rating),
+      stability: rating === 1 ? fsrsForgetStability(memory, r) : fsrsRecallStability(memory, r, rating),
+    };
+  }
+
+  const intervalDays = fsrsIntervalDays(next.stability);
+
+  return {
+    ...prev,
+    repetitions: rating > 1 ? prev.repetitions + 1 : 0,
+    lapses: rating > 1 ? prev.lapses : prev.lapses + 1,
+    intervalDays,
+    due: now + intervalDays * DAY_MS,
+    lastReviewed: now,
+    fsrs: next,
+  };
+};
+
+export type ReviewOptions = {
+  scheduler?: SchedulerKind;
+  learningSteps?: number[];
+  relearningSteps?: number[];
+  fuzz?: boolean;
+  // Days from now -> cards already due that day. When set, the lightest day in the fuzz window wins.
+  dueCountByDay?: Record<number, number>;
+  seed?: number;
+};
+
+// Minutes.
+export const DEFAULT_LEARNING_STEPS = [1, 10];
+export const DEFAULT_RELEARNING_STEPS = [10];
+
+// Learning cards due within this window come back in the same review session.
+export const LEARN_AHEAD_MS = 20 * 60 * 1000;
+
+const MINUTE_MS = 60 * 1000;
+
+export const reviewOptionsForDeck = (deck: Deck | undefined): ReviewOptions => ({
+  scheduler: deck?.scheduler ?? 'sm2',
+  learningSteps: deck?.learningSteps ?? DEFAULT_LEARNING_STEPS,
+  relearningSteps: deck?.relearningSteps ?? DEFAULT_RELEARNING_STEPS,
+  fuzz: deck?.fuzz ?? true,
+});
+
+const isNewSrs = (srs: CardSrs) => !srs.lastReviewed && srs.repetitions === 0 && srs.lapses === 0;
+
+const applyScheduler = (prev: CardSrs, result: ReviewResult, now: number, scheduler: SchedulerKind) =>
+  scheduler === 'fsrs' ? applyFsrs(prev, result, now) : applySm2(prev, result, now);
+
+const stepDelayMinutes = (steps: number[], step: number, grade: ReviewGrade): number => {
+  if (grade === 'again') return steps[0];
+  if (grade === 'hard' && step === 0 && steps.length > 1) return (steps[0] + steps[1]) / 2;
+  return steps[Math.min(step, steps.length - 1)];
+};
+
+const applyStep = (
+  prev: CardSrs,
+  grade: ReviewGrade,
+  now: number,
+  steps: number[],
+  phase: 'learning' | 'relearning',
+): CardSrs | null => {
+  const current = prev.phase === phase ? prev.learningStep ?? 0 : 0;
+  const step = grade === 'again' ? 0 : grade === 'good' ? current + 1 : current;
+  if (grade === 'easy' || step >= steps.length) return null;
+
+  return {
+    ...prev,
+    phase,
+    learningStep: step,
+    due: now + stepDelayMinutes(steps, step, grade) * MINUTE_MS,
+    lastReviewed: now,
+  };
+};
+
+const graduate = (srs: CardSrs): CardSrs => ({ ...srs, phase: undefined, learningStep: undefined });
+
+const scheduleReview = (prev: CardSrs, result: ReviewResult, now: number, options: ReviewOptions): CardSrs => {
+  const grade = gradeOf(result);
+  const scheduler = options.scheduler ?? 'sm2';
+  const learningSteps = options.learningSteps ?? DEFAULT_LEARNING_STEPS;
+  const relearningSteps = options.relearningSteps ?? DEFAULT_RELEARNING_STEPS;
+
+  if ((prev.phase === 'learning' || isNewSrs(prev)) && learningSteps.length) {
+    const stepped = applyStep(prev, grade, now, learningSteps, 'learning');
+    if (stepped) return stepped;
+    // Graduate as if this were the card's first review, so the step answers don't count as history.
+    const fresh = { ...prev, repetitions: 0, intervalDays: 0, lastReviewed: undefined, fsrs: undefined };
+    return graduate(applyScheduler(fresh, result, now, scheduler));
+  }
+
+  if (prev.phase === 'relearning' && relearningSteps.length) {
+    const stepped = applyStep(prev, grade, now, relearningSteps, 'relearning');
+    if (stepped) return stepped;
+    // The lapse already set the post-relearning interval.
+    return graduate({ ...prev, due: now + prev.intervalDays * DAY_MS, lastReviewed: now });
+  }
+
+  const next = graduate(applyScheduler(prev, result, now, scheduler));
+  if (grade !== 'again' || !relearningSteps.length) return next;
+  return { ...next, phase: 'relearning', learningStep: 0, due: now + relearningSteps[0] * MINUTE_MS };
+};
+
+export const mulberry32 = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
   };
 };
+
+const hashString = (s: string): number => {
+  let h = 2166136261;
+  for (let i = 0; i < s.length; i += 1) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+};
+
+// Derived from the card's history rather than the clock, so the preview and the actual answer agree.
+const reviewSeed = (prev: CardSrs): number =>
+  hashString(`${prev.cardId}:${prev.lastReviewed ?? 0}:${prev.repetitions}:${prev.lapses}`);
+
+export const fuzzRange = (intervalDays: number): [number, number] => {
+  if (intervalDays < 2.5) return [intervalDays, intervalDays];
+  let delta = 1;
+  delta += Math.max(0, Math.min(intervalDays, 7) - 2.5) * 0.15;
+  delta += Math.max(0, Math.min(intervalDays, 20) - 7) * 0.1;
+  delta += Math.max(0, intervalDays - 20) * 0.05;
+  return [Math.max(2, Math.round(intervalDays - delta)), Math.round(intervalDays + delta)];
+};
+
+export const spreadIntervalDays = (intervalDays: number, options: ReviewOptions, seed: number): number => {
+  const fuzz = options.fuzz ?? true;
+  const counts = options.dueCountByDay;
+  if (!fuzz && !counts) return intervalDays;
+
+  const [lo, hi] = fuzzRange(intervalDays);
+  if (lo === hi) return intervalDays;
+  const rand = mulberry32(seed);
+  if (!counts) return lo + Math.floor(rand() * (hi - lo + 1));
+
+  let best: number[] = [];
+  let bestCount = Number.POSITIVE_INFINITY;
+  for (let d = lo; d <= hi; d += 1) {
+    const c = counts[d] ?? 0;
+    if (c < bestCount) {
+      bestCount = c;
+      best = [d];
+    } else if (c === bestCount) best.push(d);
+  }
+  if (!fuzz) return best.reduce((a, b) => (Math.abs(b - intervalDays) < Math.abs(a - intervalDays) ? b : a));
+  return best[Math.floor(rand() * best.length)];
+};
+
+export const applyReview = (
+  prev: CardSrs,
+  result: ReviewResult,
+  now: number,
+  options: ReviewOptions = {},
+): CardSrs => {
+  let next = scheduleReview(prev, result, now, options);
+  if (!next.phase) {
+    const intervalDays = spreadIntervalDays(next.intervalDays, options, options.seed ?? reviewSeed(prev));
+    if (intervalDays !== next.intervalDays) next = { ...next, intervalDays, due: now + intervalDays * DAY_MS };
+  }
+  if (next.lapses <= prev.lapses) return next;
+  return { ...next, lapsedAt: [...(prev.lapsedAt ?? []), now] };
+};
+
+export const DEFAULT_LEECH_THRESHOLD = 8;
+export const LEECH_TAG = 'leech';
+
+// Fires when lapses first reach the threshold, then again every half-threshold after that.
+export const isLeechLapse = (lapses: number, threshold: number): boolean => {
+  if (threshold <= 0 || lapses < threshold) return false;
+  return (lapses - threshold) % Math.max(1, Math.ceil(threshold / 2)) === 0;
+};
+
+// What the deck does with a card whose answer just made it a leech, or null if it didn't.
+export const leechActionForReview = (prev: CardSrs, next: CardSrs, deck: Deck | undefined): LeechAction | null =>
+  next.lapses > prev.lapses && isLeechLapse(next.lapses, deck?.leechThreshold ?? DEFAULT_LEECH_THRESHOLD)
+    ? deck?.leechAction ?? 'suspend'
+    : null;
+
+export const previewReviewIntervals = (
+  prev: CardSrs,
+  now: number,
+  options: ReviewOptions = {},
+): Record<ReviewGrade, number> => {
+  const out = {} as Record<ReviewGrade, number>;
+  for (const grade of REVIEW_GRADES) {
+    out[grade] = applyReview(prev, { correct: grade !== 'again', grade }, now, options).due - now;
+  }
+  return out;
+};
+
+export type CardReviewHistory = {
+  reviews: number;
+  correct: number;
+  lapsedAt: number[];
+  // Newest first.
+  recent: ReviewLogEntry[];
+};
+
+// Per-card history rebuilt from the review log.
+export const historyFromReviewLog = (entries: ReviewLogEntry[], recentLimit = 5): Record<CardId, CardReviewHistory> => {
+  const out: Record<CardId, CardReviewHistory> = {};
+  for (const e of [...entries].sort((a, b) => a.ts - b.ts)) {
+    const h = (out[e.cardId] ??= { reviews: 0, correct: 0, lapsedAt: [], recent: [] });
+    h.reviews += 1;
+    if (e.correct) h.correct += 1;
+    if (e.lapse) h.lapsedAt.push(e.ts);
+    h.recent = [e, ...h.recent].slice(0, recentLimit);
+  }
+  return out;
+};
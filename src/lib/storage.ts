@@ -1,10 +1,22 @@
 import { toRomaji } from 'wanakana';
-import type { AppState, Card, Deck, ExampleSentence } from './models';
-import { classifyVerb, conjugateVerb, makeSeedState, verbConjugationHintText } from './seed';
+import type { AppState, Card, CardId, Deck, ExampleSentence, ReviewLogEntry } from './models';
+import {
+  VERB_FORM_BACKFILL_VERSION,
+  classifyVerb,
+  conjugateVerb,
+  isVerbForm,
+  makeSeedState,
+  makeVerbFormCard,
+  verbConjugationHintText,
+  verbFormsForBase,
+} from './seed';
+import type { VerbForm } from './seed';
 
 const DB_NAME = 'japanese_srs_db';
+const DB_VERSION = 2;
 const STORE = 'kv';
 const KEY = 'app_state_v1';
+const LOG_STORE = 'review_log';
 
 const safeRandomUUID = (): string => {
   try {
@@ -51,13 +63,18 @@ const openDb = (): Promise<IDBDatabase> =>
       finish(() => reject(new Error(`IndexedDB open timed out after ${IDB_TIMEOUT_MS}ms`)));
     }, IDB_TIMEOUT_MS);
 
-    const req = indexedDB.open(DB_NAME, 1);
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
 
     req.onupgradeneeded = () => {
       const db = req.result;
       if (!db.objectStoreNames.contains(STORE)) {
         db.createObjectStore(STORE);
       }
+      if (!db.objectStoreNames.contains(LOG_STORE)) {
+        const log = db.createObjectStore(LOG_STORE, { keyPath: 'id', autoIncrement: true });
+        log.createIndex('cardId', 'cardId');
+        log.createIndex('ts', 'ts');
+      }
     };
 
     req.onblocked = () => finish(() => reject(new Error('IndexedDB open was blocked. Close other tabs and retry.')));
@@ -65,8 +82,31 @@ const openDb = (): Promise<IDBDatabase> =>
     req.onerror = () => finish(() => reject(req.error));
   });
 
+// One connection for the whole session (every review writes a log entry); dropped when another tab upgrades the schema.
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const getDb = (): Promise<IDBDatabase> => {
+  dbPromise ??= openDb().then(
+    (db) => {
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      db.onclose = () => {
+        dbPromise = null;
+      };
+      return db;
+    },
+    (err) => {
+      dbPromise = null;
+      throw err;
+    },
+  );
+  return dbPromise;
+};
+
 const idbGet = async <T>(key: string): Promise<T | undefined> => {
-  const db = await openDb();
+  const db = await getDb();
   return await new Promise<T | undefined>((resolve, reject) => {
     const tx = db.transaction(STORE, 'readonly');
     const store = tx.objectStore(STORE);
@@ -77,7 +117,6 @@ const idbGet = async <T>(key: string): Promise<T | undefined> => {
       if (settled) return;
       settled = true;
       clearTimeout(timer);
-      db.close();
       fn();
     };
 
@@ -98,7 +137,7 @@ const idbGet = async <T>(key: string): Promise<T | undefined> => {
 };
 
 const idbSet = async <T>(key: string, value: T): Promise<void> => {
-  const db = await openDb();
+  const db = await getDb();
   return await new Promise<void>((resolve, reject) => {
     const tx = db.transaction(STORE, 'readwrite');
     const store = tx.objectStore(STORE);
@@ -109,7 +148,6 @@ const idbSet = async <T>(key: string, value: T): Promise<void> => {
       if (settled) return;
       settled = true;
       clearTimeout(timer);
-      db.close();
       fn();
     };
 
@@ -129,6 +167,41 @@ const idbSet = async <T>(key: string, value: T): Promise<void> => {
   });
 };
 
+// Runs one request against a store and resolves with its result once the transaction commits.
+const idbRun = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest,
+): Promise<T> => {
+  const db = await getDb();
+  return await new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const req = run(tx.objectStore(storeName));
+
+    let settled = false;
+    const finish = (fn: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      fn();
+    };
+
+    const timer = setTimeout(() => {
+      try {
+        tx.abort();
+      } catch {
+        // ignore
+      }
+      finish(() => reject(new Error(`IndexedDB ${storeName} request timed out after ${IDB_TIMEOUT_MS}ms`)));
+    }, IDB_TIMEOUT_MS);
+
+    req.onerror = () => finish(() => reject(req.error));
+    tx.oncomplete = () => finish(() => resolve(req.result as T));
+    tx.onabort = () => finish(() => reject(tx.error));
+    tx.onerror = () => finish(() => reject(tx.error));
+  });
+};
+
 const inferDirectionFromDeckName = (name: string): 'en-ja' | 'ja-en' => {
   const n = name.toLowerCase();
   if (n.includes('katakana')) return 'ja-en';
@@ -234,6 +307,7 @@ const migrateState = (state: AppState): { next: AppState; changed: boolean } =>
   let stats = state.stats;
   const wkApiToken = state.wkApiToken;
   const wkLastVerbSyncAt = state.wkLastVerbSyncAt;
+  let verbFormBackfill = state.verbFormBackfill;
   let vocabPracticeFilters = state.vocabPracticeFilters;
   let kanaPracticeFilters = state.kanaPracticeFilters;
   let repeatReviewLastAt = state.repeatReviewLastAt;
@@ -252,19 +326,7 @@ const migrateState = (state: AppState): { next: AppState; changed: boolean } =>
     const isSentenceWritingDeck =
       deckName.includes('sentence writing') || (deckName.includes('phrases') && deckName.includes('sentenc'));
     const form = (nextCard.verbForm ?? '').trim().toLowerCase();
-    const knownVerbForm =
-      form === 'dictionary' ||
-      form === 'polite_present' ||
-      form === 'polite_negative' ||
-      form === 'te' ||
-      form === 'progressive' ||
-      form === 'past' ||
-      form === 'negative' ||
-      form === 'past_negative' ||
-      form === 'want' ||
-      form === 'dont_want' ||
-      form === 'want_past' ||
-      form === 'dont_want_past';
+    const knownVerbForm = isVerbForm(form);
 
     if (isSentenceWritingDeck && nextCard.type === 'sentence') {
       const ans = (nextCard.answer ?? '').trim();
@@ -290,7 +352,8 @@ const migrateState = (state: AppState): { next: AppState; changed: boolean } =>
         note.includes('Base (dictionary):') &&
         note.includes('Quick rule for this target:') &&
         note.includes('Ending-specific rules:') &&
-        note.includes('Forms:');
+        note.includes('Forms:') &&
+        note.includes('Conditionals:');
       const legacyRomaji = toRomaji(nextCard.answer).trim();
       const isLegacyRomajiOnly = !!note && note === legacyRomaji;
       const isMissing = !note;
@@ -299,8 +362,8 @@ const migrateState = (state: AppState): { next: AppState; changed: boolean } =>
       const baseKanji = (nextCard.verbBaseKanji ?? '').trim() || undefined;
       const cls = baseKana ? classifyVerb(baseKana, baseKanji) : 'godan';
 
-      const expectedKana = baseKana ? conjugateVerb(baseKana, baseKana, form as any, cls as any) : nextCard.answer;
-      const expectedKanji = baseKanji ? conjugateVerb(baseKanji, baseKana, form as any, cls as any) : undefined;
+      const expectedKana = baseKana ? conjugateVerb(baseKana, baseKana, form, cls) : nextCard.answer;
+      const expectedKanji = baseKanji ? conjugateVerb(baseKanji, baseKana, form, cls) : undefined;
 
       const answerChanged = !!expectedKana && (nextCard.answer ?? '').trim() !== expectedKana.trim();
       const kanjiChanged =
@@ -333,7 +396,7 @@ const migrateState = (state: AppState): { next: AppState; changed: boolean } =>
         const cls2 = classifyVerb(baseKana2, baseKanji2);
         nextCard = {
           ...nextCard,
-          note: verbConjugationHintText(form as any, baseKana2, cls2, nextCard.answer),
+          note: verbConjugationHintText(form, baseKana2, cls2, nextCard.answer),
         };
         cardChanged = true;
         verbHintRepairs++;
@@ -833,19 +896,7 @@ const migrateState = (state: AppState): { next: AppState; changed: boolean } =>
       const looksLikeVerb = looksLikeVerbBaseKana(baseKana);
       const hasVerbPos = /\bverb\b/.test(pos);
       const hasVerbCue = cue.startsWith('to ');
-      const knownVerbForm =
-        form === 'dictionary' ||
-        form === 'polite_present' ||
-        form === 'polite_negative' ||
-        form === 'te' ||
-        form === 'progressive' ||
-        form === 'past' ||
-        form === 'negative' ||
-        form === 'past_negative' ||
-        form === 'want' ||
-        form === 'dont_want' ||
-        form === 'want_past' ||
-        form === 'dont_want_past';
+      const knownVerbForm = isVerbForm(form);
       const isGeneratedVerbCard = !!baseKana && looksLikeVerb && knownVerbForm && (hasVerbPos || hasVerbCue);
 
       if (c.type === 'verb' && (isAdverb || !isGeneratedVerbCard)) {
@@ -1004,6 +1055,61 @@ const migrateState = (state: AppState): { next: AppState; changed: boolean } =>
     }
   }
 
+  if ((verbFormBackfill ?? 0) < VERB_FORM_BACKFILL_VERSION) {
+    // Verbs that predate a form get the missing cards, built from the base's dictionary-form card.
+    let addedVerbFormCards = 0;
+    for (const [deckId, deck] of Object.entries(decks)) {
+      if (!deck.name.toLowerCase().includes('verb conjugation')) continue;
+
+      const bases = new Map<string, { template: Card; forms: Set<string> }>();
+      for (const id of deck.cardIds) {
+        const c = cards[id];
+        if (!c || c.type !== 'verb' || !isVerbForm((c.verbForm ?? '').trim().toLowerCase()) || !(c.verbBaseKana ?? '').trim()) continue;
+        const key = `${(c.verbBaseKana ?? '').trim()}||${(c.verbBaseKanji ?? '').trim()}`;
+        const form = (c.verbForm ?? '').trim().toLowerCase();
+        const entry = bases.get(key);
+        if (!entry) bases.set(key, { template: c, forms: new Set([form]) });
+        else {
+          entry.forms.add(form);
+          if (form === 'dictionary') entry.template = c;
+        }
+      }
+
+      const newCards: Record<string, Card> = {};
+      for (const { template, forms } of bases.values()) {
+        const baseKana = (template.verbBaseKana ?? '').trim();
+        const baseKanji = (template.verbBaseKanji ?? '').trim() || undefined;
+        const isDictionary = (template.verbForm ?? '').trim().toLowerCase() === 'dictionary';
+        const source = (template.background ?? '').match(/Source:[^\n]*$/)?.[0];
+        for (const form of verbFormsForBase(baseKana)) {
+          if (forms.has(form)) continue;
+          const card = makeVerbFormCard(
+            deckId,
+            { prompt: template.prompt, pos: template.pos, exampleSentences: isDictionary ? template.exampleSentences : undefined },
+            baseKana,
+            baseKanji,
+            form,
+            source,
+          );
+          const newCardId = `card_${safeRandomUUID()}`;
+          newCards[newCardId] = { ...card, id: newCardId };
+        }
+      }
+
+      const newIds = Object.keys(newCards);
+      if (!newIds.length) continue;
+      cards = { ...cards, ...newCards };
+      decks = { ...decks, [deckId]: { ...deck, cardIds: [...deck.cardIds, ...newIds] } };
+      addedVerbFormCards += newIds.length;
+      changed = true;
+    }
+    if (addedVerbFormCards > 0) {
+      console.info(`Added ${addedVerbFormCards} Verb Conjugation card(s) for newly supported forms.`);
+    }
+    verbFormBackfill = VERB_FORM_BACKFILL_VERSION;
+    changed = true;
+  }
+
   if (posRepairs > 0) {
     console.info(`Repaired ${posRepairs} card(s) with invalid part-of-speech metadata.`);
   }
@@ -1026,6 +1132,7 @@ const migrateState = (state: AppState): { next: AppState; changed: boolean } =>
       stats,
       wkApiToken,
       wkLastVerbSyncAt,
+      verbFormBackfill,
       vocabPracticeFilters,
       kanaPracticeFilters,
       repeatReviewLastAt,
@@ -1062,5 +1169,43 @@ export const saveState = async (state: AppState): Promise<void> => {
 export const resetState = async (): Promise<AppState> => {
   const seed = makeSeedState();
   await saveState(seed);
+  await clearReviewLog();
   return seed;
 };
+
+export const appendReviewLog = async (entry: ReviewLogEntry): Promise<number | undefined> => {
+  try {
+    const { id: _id, ...rest } = entry;
+    return await idbRun<number>(LOG_STORE, 'readwrite', (store) => store.add(rest));
+  } catch (err) {
+    console.error('Failed to append to the review log.', err);
+    return undefined;
+  }
+};
+
+export const loadReviewLog = async (cardId?: CardId): Promise<ReviewLogEntry[]> => {
+  try {
+    return await idbRun<ReviewLogEntry[]>(LOG_STORE, 'readonly', (store) =>
+      cardId ? store.index('cardId').getAll(cardId) : store.index('ts').getAll(),
+    );
+  } catch (err) {
+    console.error('Failed to load the review log.', err);
+    return [];
+  }
+};
+
+export const deleteReviewLogEntry = async (id: number): Promise<void> => {
+  try {
+    await idbRun<undefined>(LOG_STORE, 'readwrite', (store) => store.delete(id));
+  } catch (err) {
+    console.error('Failed to delete a review log entry.', err);
+  }
+};
+
+export const clearReviewLog = async (): Promise<void> => {
+  try {
+    await idbRun<undefined>(LOG_STORE, 'readwrite', (store) => store.clear());
+  } catch (err) {
+    console.error('Failed to clear the review log.', err);
+  }
+};
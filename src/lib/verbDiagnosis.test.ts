@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { diagnoseVerbMistake } from './verbDiagnosis';
+
+describe('diagnoseVerbMistake', () => {
+  it('returns null for a correct answer', () => {
+    expect(diagnoseVerbMistake('たべなかった', { baseKana: 'たべる', form: 'past_negative' })).toBeNull();
+  });
+
+  it('explains a godan sound-change mix-up for つくる like any regular godan verb', () => {
+    const mistake = diagnoseVerbMistake('つくいて', { baseKana: 'つくる', baseKanji: '作る', form: 'te' });
+    expect(mistake?.kind).toBe('sound_change');
+  });
+
+  it.each([
+    ['かえて', 'かえる', '帰る', 'te', 'ichidan'],
+    ['はしない', 'はしる', '走る', 'negative', 'ichidan'],
+    ['つくない', 'つくる', undefined, 'negative', 'ichidan'],
+    ['たべって', 'たべる', '食べる', 'te', 'godan'],
+    ['かえらない', 'かえる', '変える', 'negative', 'godan'],
+  ] as const)('catches %s as %s conjugated in the wrong class', (typed, baseKana, baseKanji, form, cls) => {
+    expect(diagnoseVerbMistake(typed, { baseKana, baseKanji, form })).toMatchObject({ kind: 'wrong_class', cls });
+  });
+
+  it('points out the いく exception', () => {
+    expect(diagnoseVerbMistake('いいて', { baseKana: 'いく', form: 'te' })?.kind).toBe('iku_exception');
+  });
+});
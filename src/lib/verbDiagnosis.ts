@@ -0,0 +1,102 @@
+import { normalizeJapanese } from './grading';
+import { VERB_FORMS, classifyVerb, conjugateVerb, isKuruVerb, verbFormLabel, verbQuickRuleText } from './seed';
+import type { VerbClass, VerbForm } from './seed';
+
+export type VerbMistakeKind = 'wrong_class' | 'wrong_form' | 'wrong_class_and_form' | 'iku_exception' | 'sound_change';
+
+export type VerbMistake = {
+  kind: VerbMistakeKind;
+  // The form/class combination that actually produces what was typed.
+  form: VerbForm;
+  cls: VerbClass;
+  explanation: string;
+};
+
+const CLASS_LABEL: Record<VerbClass, string> = {
+  ichidan: 'Ichidan (る-verb)',
+  godan: 'Godan (う-verb)',
+  honorific: 'Honorific (keigo る-verb)',
+};
+
+const GODAN_ENDINGS = ['う', 'つ', 'る', 'む', 'ぶ', 'ぬ', 'く', 'ぐ', 'す'];
+const SOUND_CHANGE_FORMS: VerbForm[] = ['te', 'past', 'progressive', 'conditional_tara'];
+
+const dropLastKana = (s: string): string => s.slice(0, -1);
+
+// Ending that `form` attaches for a regular godan verb ending in `end` (か + end is a stand-in base).
+const godanSuffix = (end: string, form: VerbForm): string => conjugateVerb(`か${end}`, `か${end}`, form, 'godan').slice(1);
+
+const ruleLine = (form: VerbForm, baseKana: string, cls: VerbClass): string => verbQuickRuleText(form, baseKana, cls).replace(/^- /, '');
+
+export const diagnoseVerbMistake = (
+  typed: string,
+  verb: { baseKana: string; baseKanji?: string; form: string },
+): VerbMistake | null => {
+  const got = normalizeJapanese(typed);
+  const kana = verb.baseKana.trim();
+  const kanji = (verb.baseKanji ?? '').trim();
+  const form = VERB_FORMS.find((f) => f === verb.form.trim().toLowerCase());
+  if (!got || !kana || !form) return null;
+
+  const cls = classifyVerb(kana, kanji || undefined);
+  const bases = kanji ? [kana, kanji] : [kana];
+  const produces = (f: VerbForm, c: VerbClass): boolean =>
+    bases.some((b) => normalizeJapanese(conjugateVerb(b, kana, f, c)) === got);
+  if (produces(form, cls)) return null;
+
+  const target = `Target: ${verbFormLabel(form)}\nRule: ${ruleLine(form, kana, cls)}`;
+  const irregular = kana.endsWith('する') || isKuruVerb(kana, kanji);
+
+  if (cls === 'godan' && !irregular && SOUND_CHANGE_FORMS.includes(form)) {
+    const end = kana.slice(-1);
+    if (kana === 'いく' && bases.some((b) => normalizeJapanese(`${dropLastKana(b)}${godanSuffix('く', form)}`) === got)) {
+      return {
+        kind: 'iku_exception',
+        form,
+        cls,
+        explanation: `You applied the regular く→いて change, but いく is the exception: いく → いって / いった.\n${target}`,
+      };
+    }
+
+    const right = godanSuffix(end, 'te');
+    for (const other of GODAN_ENDINGS) {
+      if (godanSuffix(other, 'te') === right) continue;
+      if (!bases.some((b) => normalizeJapanese(`${dropLastKana(b)}${godanSuffix(other, form)}`) === got)) continue;
+      const used = godanSuffix(other, 'te');
+      const group = GODAN_ENDINGS.filter((e) => godanSuffix(e, 'te') === used).join('/');
+      return {
+        kind: 'sound_change',
+        form,
+        cls,
+        explanation: `You used the ${group}→${used} sound change, but ${kana} ends in ${end}: ${end}→${right}.\n${target}`,
+      };
+    }
+  }
+
+  const otherCls: VerbClass = cls === 'godan' ? 'ichidan' : 'godan';
+  const classes = irregular ? [cls] : [cls, otherCls];
+  const candidates: Array<[VerbForm, VerbClass]> = [
+    ...(irregular ? [] : [[form, otherCls] as [VerbForm, VerbClass]]),
+    ...VERB_FORMS.filter((f) => f !== form).flatMap((f) => classes.map((c) => [f, c] as [VerbForm, VerbClass])),
+  ];
+  const hit = candidates.find(([f, c]) => produces(f, c));
+  if (!hit) return null;
+
+  const [f, c] = hit;
+  const lines: string[] = [];
+  if (c !== cls) {
+    const looksIchidan = cls === 'godan' && kana.endsWith('る');
+    lines.push(
+      `You conjugated ${kana} as ${CLASS_LABEL[c]}, but it is ${CLASS_LABEL[cls]}${looksIchidan ? ' (it ends in る but is a godan exception)' : ''}.`,
+    );
+  }
+  if (f !== form) lines.push(`That is the ${verbFormLabel(f)} form, built as: ${ruleLine(f, kana, c)}`);
+  lines.push(target);
+
+  return {
+    kind: c !== cls && f !== form ? 'wrong_class_and_form' : c !== cls ? 'wrong_class' : 'wrong_form',
+    form: f,
+    cls: c,
+    explanation: lines.join('\n'),
+  };
+};